@@ -0,0 +1,99 @@
+import React from 'react';
+import { act, fireEvent, render, screen } from '@testing-library/react';
+import AddressEntry from './AddressEntry';
+import { geocodingService } from './geocoding';
+
+const results = [
+  { placeName: 'Queen Street', center: [153.02, -27.47] as [number, number] },
+  { placeName: 'Queens Road', center: [153.03, -27.48] as [number, number] },
+  { placeName: 'Queensland', center: [153.04, -27.49] as [number, number] },
+];
+
+beforeEach(() => {
+  jest.spyOn(geocodingService, 'search').mockResolvedValue(results);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+// Types a query and waits for its suggestions
+const renderWithSuggestions = async () => {
+  const onSelect = jest.fn();
+  render(
+    <>
+      <AddressEntry label="Origin" value="" onSelect={onSelect} />
+      <button>Elsewhere</button>
+    </>
+  );
+  const input = screen.getByRole('combobox', { name: 'Origin' });
+  input.focus();
+  fireEvent.change(input, { target: { value: 'Queen' } });
+  await screen.findAllByRole('option');
+  return { input, onSelect };
+};
+
+// The keys are pressed in the input, where the focus stays
+const press = (input: HTMLElement, ...keys: string[]) =>
+  keys.forEach((key) => fireEvent.keyDown(input, { key }));
+
+// The suggestion the input points to as its active descendant
+const getActiveOption = (input: HTMLElement) =>
+  screen
+    .getAllByRole('option')
+    .find(
+      (option) => option.id === input.getAttribute('aria-activedescendant')
+    );
+
+test('the arrow keys move through the suggestions and wrap around', async () => {
+  const { input } = await renderWithSuggestions();
+  expect(input).toHaveAttribute('aria-expanded', 'true');
+  expect(input).not.toHaveAttribute('aria-activedescendant');
+
+  press(input, 'ArrowDown');
+  expect(getActiveOption(input)).toHaveTextContent('Queen Street');
+  expect(getActiveOption(input)).toHaveAttribute('aria-selected', 'true');
+
+  press(input, 'ArrowDown', 'ArrowDown', 'ArrowDown');
+  expect(getActiveOption(input)).toHaveTextContent('Queen Street');
+
+  press(input, 'ArrowUp');
+  expect(getActiveOption(input)).toHaveTextContent('Queensland');
+  // The focus stays in the input
+  expect(input).toHaveFocus();
+});
+
+test('Enter takes the active suggestion', async () => {
+  const { input, onSelect } = await renderWithSuggestions();
+
+  press(input, 'ArrowDown', 'ArrowDown', 'Enter');
+  expect(onSelect).toHaveBeenCalledWith('Queens Road', [153.03, -27.48]);
+  expect(input).toHaveValue('Queens Road');
+  expect(screen.queryByRole('listbox')).not.toBeInTheDocument();
+  expect(input).toHaveAttribute('aria-expanded', 'false');
+});
+
+test('Escape closes the suggestions, and the arrow keys open them again', async () => {
+  const { input, onSelect } = await renderWithSuggestions();
+
+  press(input, 'ArrowDown', 'Escape');
+  expect(screen.queryByRole('listbox')).not.toBeInTheDocument();
+  expect(input).not.toHaveAttribute('aria-activedescendant');
+  expect(input).toHaveValue('Queen');
+
+  // Enter does nothing while they are closed
+  press(input, 'Enter');
+  expect(onSelect).not.toHaveBeenCalled();
+
+  press(input, 'ArrowDown');
+  expect(screen.getByRole('listbox')).toBeInTheDocument();
+  expect(getActiveOption(input)).toHaveTextContent('Queen Street');
+});
+
+test('moving the focus away closes the suggestions', async () => {
+  const { input } = await renderWithSuggestions();
+
+  act(() => screen.getByRole('button', { name: 'Elsewhere' }).focus());
+  expect(screen.queryByRole('listbox')).not.toBeInTheDocument();
+  expect(input).toHaveAttribute('aria-expanded', 'false');
+});
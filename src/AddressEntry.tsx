@@ -1,29 +1,128 @@
-import mapboxgl from "mapbox-gl";
-import React, { useEffect, useState } from "react";
-
-const mapboxGeocodingApi = "https://api.mapbox.com/geocoding/v5/mapbox.places";
+import React, { useEffect, useId, useRef, useState } from "react";
+import { formatDistance } from "./format";
+import { GeocodingResult, geocodingService, SearchOptions } from "./geocoding";
+import { haversineDistance } from "./geometry";
+import { Units } from "./preferences";
+import {
+  getErrorMessage,
+  isAbortError,
+  retryWithBackoff,
+} from "./serviceErrors";
 
 interface AddressInputProps {
   value: string;
   onSelect: (address: string, coords: [number, number]) => void;
   placeholder?: string;
+  // Accessible name of the field, e.g. "Origin"
+  label?: string;
+  // The address is being looked up for a point placed on the map
+  isLoading?: boolean;
+  // Location bias and filters of the search
+  searchOptions?: SearchOptions;
+  // Suggestions show how far they are from here
+  mapCenter?: [number, number];
+  units?: Units;
 }
 
+// Read by screen readers only
+const visuallyHidden: React.CSSProperties = {
+  position: "absolute",
+  width: "1px",
+  height: "1px",
+  overflow: "hidden",
+  clip: "rect(0 0 0 0)",
+  whiteSpace: "nowrap",
+};
+
 const AddressEntry: React.FC<AddressInputProps> = ({
   value,
   onSelect,
   placeholder,
+  label,
+  isLoading,
+  searchOptions = {},
+  mapCenter,
+  units = "metric",
 }) => {
   const [inputValue, setInputValue] = useState(value);
-  const [suggestions, setSuggestions] = useState<
-    Array<{ place_name: string; center: [number, number] }>
-  >([]);
+  const [suggestions, setSuggestions] = useState<GeocodingResult[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [searchError, setSearchError] = useState<string | null>(null);
+  // A WAI-ARIA combobox: the suggestions popup can be closed while keeping them, and one of them can be active
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  const listboxId = useId();
+  const getOptionId = (index: number) => `${listboxId}-option-${index}`;
   const [timerId, setTimerId] = useState<number | null>(null);
+  // The lookup in progress, aborted when the input changes so that a slow response cannot replace newer suggestions
+  const searchController = useRef<AbortController | null>(null);
 
   useEffect(() => {
     setInputValue(value);
   }, [value]);
 
+  useEffect(() => () => searchController.current?.abort(), []);
+
+  // Clicking anywhere else closes the suggestions
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleMouseDown = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener("mousedown", handleMouseDown);
+    return () => document.removeEventListener("mousedown", handleMouseDown);
+  }, [isOpen]);
+
+  // The active suggestion is kept in view while moving through a long list
+  useEffect(() => {
+    if (activeIndex < 0) return;
+    document
+      .getElementById(getOptionId(activeIndex))
+      ?.scrollIntoView?.({ block: "nearest" });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [activeIndex]);
+
+  const showSuggestions = (results: GeocodingResult[]) => {
+    setSuggestions(results);
+    setActiveIndex(-1);
+    setIsOpen(results.length > 0);
+  };
+
+  const search = async (query: string) => {
+    searchController.current?.abort();
+    searchController.current = null;
+    setSearchError(null);
+
+    if (query.length <= 2) {
+      showSuggestions([]);
+      setIsSearching(false);
+      return;
+    }
+
+    const controller = new AbortController();
+    searchController.current = controller;
+    setIsSearching(true);
+    try {
+      // Connection and server failures are retried a couple of times before the error is shown
+      showSuggestions(
+        await retryWithBackoff(
+          () =>
+            geocodingService.search(query, searchOptions, controller.signal),
+          { retries: 2, signal: controller.signal }
+        )
+      );
+    } catch (error) {
+      // A newer lookup has taken over
+      if (isAbortError(error)) return;
+      console.error("Error searching addresses:", error);
+      showSuggestions([]);
+      setSearchError(getErrorMessage(error));
+    }
+    setIsSearching(false);
+  };
+
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const newValue = e.target.value;
     setInputValue(newValue);
@@ -32,54 +131,112 @@ const AddressEntry: React.FC<AddressInputProps> = ({
       clearTimeout(timerId);
     }
 
-    setTimerId(
-      window.setTimeout(async () => {
-        if (newValue.length > 2) {
-          const url = `${mapboxGeocodingApi}/${encodeURIComponent(
-            newValue
-          )}.json?access_token=${
-            mapboxgl.accessToken
-          }&autocomplete=true&limit=5`;
-          const response = await fetch(url);
-          const data = await response.json();
-          if (data.features) {
-            setSuggestions(data.features);
-          } else {
-            setSuggestions([]);
-          }
-        } else {
-          setSuggestions([]);
-        }
-      }, 300)
-    );
+    // Aborting a pending lookup right away, its suggestions no longer match the input
+    searchController.current?.abort();
+    setIsSearching(false);
+    setTimerId(window.setTimeout(() => search(newValue), 300));
   };
 
-  const handleSelect = (place_name: string, center: [number, number]) => {
-    setInputValue(place_name);
-    setSuggestions([]);
-    onSelect(place_name, center);
+  const handleSelect = (placeName: string, center: [number, number]) => {
+    searchController.current?.abort();
+    setIsSearching(false);
+    setSearchError(null);
+    setInputValue(placeName);
+    showSuggestions([]);
+    onSelect(placeName, center);
   };
 
+  // Arrow keys move through the suggestions (wrapping around), Enter takes the active one or else the first
   const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
-    if (e.key === "Enter" && suggestions.length > 0) {
-      e.preventDefault();
-      const firstSuggestion = suggestions[0];
-      handleSelect(firstSuggestion.place_name, firstSuggestion.center);
+    switch (e.key) {
+      case "ArrowDown":
+      case "ArrowUp": {
+        if (suggestions.length === 0) return;
+        e.preventDefault();
+        const step = e.key === "ArrowDown" ? 1 : -1;
+        setIsOpen(true);
+        setActiveIndex((prev) =>
+          prev === -1
+            ? step === 1
+              ? 0
+              : suggestions.length - 1
+            : (prev + step + suggestions.length) % suggestions.length
+        );
+        return;
+      }
+      case "Enter": {
+        if (!isOpen || suggestions.length === 0) return;
+        e.preventDefault();
+        const suggestion = suggestions[Math.max(activeIndex, 0)];
+        handleSelect(suggestion.placeName, suggestion.center);
+        return;
+      }
+      case "Escape":
+        if (!isOpen) return;
+        e.preventDefault();
+        setIsOpen(false);
+        setActiveIndex(-1);
+        return;
     }
   };
 
+  const isExpanded = isOpen && suggestions.length > 0;
+
   return (
-    <div style={{ position: "relative" }}>
+    <div
+      ref={containerRef}
+      style={{ position: "relative" }}
+      // Tabbing away closes the suggestions, focus moving into the list (e.g. on click) doesn't
+      onBlur={(e) => {
+        if (!containerRef.current?.contains(e.relatedTarget as Node)) {
+          setIsOpen(false);
+        }
+      }}
+    >
       <input
         type="text"
+        role="combobox"
+        aria-label={label || placeholder}
+        aria-autocomplete="list"
+        aria-expanded={isExpanded}
+        aria-controls={listboxId}
+        aria-activedescendant={
+          isExpanded && activeIndex >= 0 ? getOptionId(activeIndex) : undefined
+        }
+        aria-busy={isLoading || isSearching}
         value={inputValue}
         placeholder={placeholder}
         onChange={handleChange}
         onKeyDown={handleKeyDown}
         style={{ width: "100%", marginBottom: "10px" }}
       />
-      {suggestions.length > 0 && (
+      {/* Announces how many suggestions there are as they arrive */}
+      <div role="status" aria-live="polite" style={visuallyHidden}>
+        {isExpanded
+          ? `${suggestions.length} suggestion${
+              suggestions.length === 1 ? "" : "s"
+            } available, use the up and down arrows to choose one`
+          : ""}
+      </div>
+      {(isLoading || isSearching) && (
+        <div style={{ fontSize: "12px", color: "#666", marginTop: "-8px" }}>
+          {isLoading ? "Looking up address..." : "Searching..."}
+        </div>
+      )}
+      {searchError && (
+        <div
+          role="alert"
+          style={{ fontSize: "12px", color: "maroon", marginTop: "-8px" }}
+        >
+          {searchError}{" "}
+          <button onClick={() => search(inputValue)}>Retry</button>
+        </div>
+      )}
+      {isExpanded && (
         <ul
+          id={listboxId}
+          role="listbox"
+          aria-label={`Suggestions for ${label || placeholder || "address"}`}
           style={{
             listStyleType: "none",
             padding: 0,
@@ -96,15 +253,39 @@ const AddressEntry: React.FC<AddressInputProps> = ({
           {suggestions.map((suggestion, index) => (
             <li
               key={index}
+              id={getOptionId(index)}
+              role="option"
+              aria-selected={index === activeIndex}
+              // Keeps the focus in the input
+              onMouseDown={(e) => e.preventDefault()}
+              onMouseEnter={() => setActiveIndex(index)}
               onClick={() =>
-                handleSelect(suggestion.place_name, suggestion.center)
+                handleSelect(suggestion.placeName, suggestion.center)
               }
               style={{
+                display: "flex",
                 padding: "8px",
                 cursor: "pointer",
+                backgroundColor: index === activeIndex ? "#e0ecf5" : "white",
               }}
             >
-              {suggestion.place_name}
+              {suggestion.placeName}
+              {mapCenter && (
+                <span
+                  style={{
+                    marginLeft: "auto",
+                    paddingLeft: "8px",
+                    whiteSpace: "nowrap",
+                    color: "#666",
+                    fontSize: "12px",
+                  }}
+                >
+                  {formatDistance(
+                    haversineDistance(mapCenter, suggestion.center),
+                    units
+                  )}
+                </span>
+              )}
             </li>
           ))}
         </ul>
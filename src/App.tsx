@@ -12,14 +12,102 @@ import MapGL, {
   Source,
 } from "react-map-gl";
 import AddressEntry from "./AddressEntry";
-import { ContextMenuProps, CurrentRoute, Route, Waypoint } from "./interfaces";
+import {
+  AvoidArea,
+  findCrossedAreas,
+  getAvoidPoints,
+  preferAvoidingAreas,
+} from "./avoidAreas";
+import AvoidAreasPanel from "./AvoidAreasPanel";
+import { isSamePlan, MapView, parseDeepLink, toDeepLink } from "./deepLink";
+import DrawControl from "./DrawControl";
+import ErrorBanner from "./ErrorBanner";
+import ExportMenu from "./ExportMenu";
+import { formatDistance, formatDuration } from "./format";
+import { geocodingService, SearchOptions } from "./geocoding";
+import { getBounds } from "./geometry";
+import ImportPanel from "./ImportPanel";
+import InstructionList from "./InstructionList";
+import {
+  ContextMenuProps,
+  CurrentRoute,
+  Route,
+  RouteStep,
+  RoutingProfile,
+  Waypoint,
+  WaypointSlot,
+} from "./interfaces";
+import LoopPanel from "./LoopPanel";
+import { LoopCandidate, toLoopRoute } from "./loops";
+import MapContextMenu from "./MapContextMenu";
 import CustomMarker from "./Marker";
+import { MeasureMode, toMeasureShape } from "./measure";
+import MeasurePanel from "./MeasurePanel";
+import { applyTripOrder, canMakeRoundTrip } from "./optimization";
+import OptimizeOrderPanel from "./OptimizeOrderPanel";
+import { loadPreferences, savePreferences } from "./preferences";
+import PreferencesPanel from "./PreferencesPanel";
+import { ROUTING_PROFILES } from "./profiles";
+import ReachableAreaPanel, { ISOCHRONE_COLORS } from "./ReachableAreaPanel";
+import SearchPreferencesPanel from "./SearchPreferencesPanel";
+import { exportRoutes } from "./routeExport";
+import {
+  createCurrentRoute,
+  getAlternativeDuration,
+  getDefaultRouteColor,
+  getRouteDistance,
+  getRouteDuration,
+  getRouteRequestKey,
+  hasUnsavedChanges,
+  toCurrentRoute,
+  toSavedRouteChanges,
+} from "./routes";
+import { routingService } from "./routingService";
+import RouteSummary from "./RouteSummary";
+import SavedRouteItem from "./SavedRouteItem";
+import SavedRoutePopup from "./SavedRoutePopup";
+import {
+  SAVED_ROUTE_ENDPOINTS_SOURCE,
+  SAVED_ROUTES_SOURCE,
+} from "./savedRouteLayers";
+import {
+  getErrorMessage,
+  isAbortError,
+  retryWithBackoff,
+  ServiceError,
+} from "./serviceErrors";
+import { loadStoredState, saveStoredState } from "./storage";
+import { useAvoidAreas } from "./useAvoidAreas";
+import { EditSnapshot, useEditHistory } from "./useEditHistory";
+import { useIsochrones } from "./useIsochrones";
+import { useLoops } from "./useLoops";
+import { useMeasure } from "./useMeasure";
+import { useOptimizeOrder } from "./useOptimizeOrder";
+import { useRouteImport } from "./useRouteImport";
+import { useSavedRouteLayers } from "./useSavedRouteLayers";
+import {
+  findViaPointInsertion,
+  insertViaPoint,
+  removeViaPoint,
+} from "./viaPoints";
+import {
+  canAddStop,
+  getOrderedWaypoints,
+  getWaypoint,
+  moveWaypoint,
+  removeStop,
+  setWaypoint,
+  withOrderedWaypoints,
+} from "./waypoints";
 
 mapboxgl.accessToken = process.env.REACT_APP_MAPBOX_API_TOKEN || "";
 
-const mapboxDirectionsApi =
-  "https://api.mapbox.com/directions/v5/mapbox/walking";
-const mapboxGeocodingApi = "https://api.mapbox.com/geocoding/v5/mapbox.places";
+// Where the map opens when there is no link to a view
+const DEFAULT_MAP_VIEW: MapView = {
+  longitude: 153.0251,
+  latitude: -27.4698,
+  zoom: 12,
+};
 
 const App: React.FC = () => {
   const ENABLE_ROUTE_SNAPPING = true;
@@ -31,22 +119,73 @@ const App: React.FC = () => {
     lngLat: { lng: 0, lat: 0 },
   });
 
-  const [currentRoute, setCurrentRoute] = useState<CurrentRoute>({
-    origin: null,
-    destination: null,
-    rerouteSnapPoint: null,
-    geometry: null,
-    id: 0,
+  // Units and walking pace, remembered across sessions
+  const [preferences, setPreferences] = useState(loadPreferences);
+
+  useEffect(() => {
+    savePreferences(preferences);
+  }, [preferences]);
+
+  // Routes are restored from the browser storage (once, on the first render)
+  const [storedState] = useState(loadStoredState);
+  // A shared link to a route plan and map view, read from the URL once
+  const [deepLink] = useState(() => parseDeepLink(window.location.hash));
+
+  // A linked plan replaces the restored current route, unless it is that same plan (e.g. after a reload).
+  // It gets the next free ID like any new route, and its route is fetched as it has no geometry yet.
+  const [currentRoute, setCurrentRoute] = useState<CurrentRoute>(() => {
+    const stored = storedState.currentRoute;
+    if (!deepLink?.route) return stored;
+
+    const profile = deepLink.profile || stored.profile;
+    if (isSamePlan(deepLink.route, profile, stored, stored.profile)) {
+      return stored;
+    }
+    return {
+      ...createCurrentRoute(storedState.routeCounter, profile),
+      ...deepLink.route,
+    };
   });
 
-  const [routes, setRoutes] = useState<Route[]>([]);
-  const [routeCounter, setRouteCounter] = useState<number>(1);
-  // Caching reverse geocode in-memory in order to reduce the number of calls to the api
-  // This avoids exceeding the rate limit
-  const reverseGeocodeCache = new Map<string, string>();
+  const [routes, setRoutes] = useState<Route[]>(storedState.routes);
+  const [routeCounter, setRouteCounter] = useState<number>(
+    storedState.routeCounter
+  );
 
+  // Persisting the routes on every change, debounced since the current route changes continuously while dragging
+  useEffect(() => {
+    const timeoutId = window.setTimeout(
+      () => saveStoredState({ routes, currentRoute, routeCounter }),
+      500
+    );
+    return () => window.clearTimeout(timeoutId);
+  }, [routes, currentRoute, routeCounter]);
   const mapRef = useRef<MapRef | null>(null);
 
+  // Every Mapbox request fails without a valid access token, so a token problem gets its own banner
+  const [tokenError, setTokenError] = useState<ServiceError | null>(() =>
+    mapboxgl.accessToken ? null : new ServiceError("MissingToken")
+  );
+
+  const checkTokenError = (error: unknown) => {
+    if (
+      error instanceof ServiceError &&
+      (error.code === "InvalidToken" || error.code === "Forbidden")
+    ) {
+      setTokenError(error);
+    }
+  };
+
+  // The last failed route request, retried from the error banner
+  const [routeError, setRouteError] = useState<{
+    error: unknown;
+    retry: () => void;
+  } | null>(null);
+  const [isRouteLoading, setIsRouteLoading] = useState(false);
+  const [addressError, setAddressError] = useState<string | null>(null);
+  // Waypoint slots (and the next stop) whose address is being looked up
+  const [addressLookups, setAddressLookups] = useState<string[]>([]);
+
   // Right-click context menu which records the point and opens up for setting origin or destination
   const handleContextMenu = (e: MapMouseEvent) => {
     e.preventDefault();
@@ -60,127 +199,590 @@ const App: React.FC = () => {
     });
   };
 
-  // Map click which only closes the context menu at this stage
-  // TODO we will add setting single point later on
+  // The context menu can also be opened from the keyboard (the menu key or Shift+F10) while the map has focus, at the centre of the map
+  const handleMapKeyDown = (e: React.KeyboardEvent) => {
+    if (!(e.key === "ContextMenu" || (e.shiftKey && e.key === "F10"))) return;
+    if (!mapRef.current) return;
+
+    e.preventDefault();
+    const lngLat = mapRef.current.getCenter();
+    const point = mapRef.current.project(lngLat);
+    setContextMenu({
+      visible: true,
+      x: point.x,
+      y: point.y,
+      lngLat: { lng: lngLat.lng, lat: lngLat.lat },
+    });
+  };
+
+  // Focus goes back to the map, where the menu was opened from
+  const closeContextMenu = () => {
+    setContextMenu((prev) => ({ ...prev, visible: false }));
+    mapRef.current?.getCanvas().focus();
+  };
+
+  // What clicks on the map do besides the usual, only one at a time:
+  //   place           - set the origin, then the destination, then add stops
+  //   avoid           - draw an area for routes to avoid
+  //   measure-line    - measure distances along a drawn line
+  //   measure-polygon - measure the area of a drawn polygon
+  const [mapMode, setMapMode] = useState<
+    "place" | "avoid" | "measure-line" | "measure-polygon" | null
+  >(null);
+  const isPlacing = mapMode === "place";
+  const isDrawingAvoidArea = mapMode === "avoid";
+  const measureMode: MeasureMode | null =
+    mapMode === "measure-line"
+      ? "line"
+      : mapMode === "measure-polygon"
+      ? "polygon"
+      : null;
+  const isDrawing = isDrawingAvoidArea || measureMode !== null;
+
+  // Escape leaves the mode, unless something else (e.g. the suggestions of an address field) used it.
+  // Drawing also closes the context menu, it would be in the way.
+  useEffect(() => {
+    if (!mapMode) return;
+    if (mapMode !== "place") closeContextMenu();
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape" && !e.defaultPrevented) setMapMode(null);
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [mapMode]);
+
+  // The slot the next click goes to, null once the route can't take more stops
+  const nextPlacementSlot: WaypointSlot | null = !currentRoute.origin
+    ? "origin"
+    : !currentRoute.destination
+    ? "destination"
+    : canAddStop(currentRoute)
+    ? currentRoute.stops.length
+    : null;
+
+  // The waypoint is placed right away so that quick clicks go to the next slots, its address follows
+  const placeWaypoint = (coordinates: [number, number]) => {
+    const slot = nextPlacementSlot;
+    if (slot === null) return;
+
+    recordEdit();
+    const waypoint: Waypoint = { coordinates, address: "" };
+    setCurrentRoute((prev) =>
+      typeof slot === "number"
+        ? { ...prev, stops: [...prev.stops, waypoint] }
+        : setWaypoint(prev, slot, waypoint)
+    );
+    lookUpWaypointAddress(slot, waypoint);
+  };
+
+  const { avoidAreas, addAvoidArea, updateAvoidArea, deleteAvoidArea } =
+    useAvoidAreas();
+
+  const {
+    measurement,
+    measuredShape,
+    setMeasuredShape,
+    setLiveMeasureShape,
+    clearMeasurement,
+    isMeasurementCopied,
+    copyMeasurement,
+    measurementWaypoints,
+    canMakeMeasurementRoute,
+  } = useMeasure(measureMode, preferences.units);
+
+  // Starting, switching or cancelling drawing drops the last measurement
+  const handleMeasureModeChange = (mode: MeasureMode | null) => {
+    setMapMode(mode && `measure-${mode}`);
+    clearMeasurement();
+  };
+
+  // The measured points replace the waypoints of the current route, in the order they were drawn
+  const handleMeasurementToRoute = () => {
+    if (!canMakeMeasurementRoute) return;
+
+    recordEdit();
+    setCurrentRoute((prev) => withOrderedWaypoints(prev, measurementWaypoints));
+    measurementWaypoints.forEach((waypoint, index) =>
+      lookUpWaypointAddress(
+        index === 0
+          ? "origin"
+          : index === measurementWaypoints.length - 1
+          ? "destination"
+          : index - 1,
+        waypoint
+      )
+    );
+    setMeasuredShape(null);
+  };
+
+  const handleAvoidAreaZoom = (area: AvoidArea) =>
+    mapRef.current?.fitBounds(getBounds(area.geometry.coordinates[0]), {
+      padding: 80,
+    });
+
+  // Everything about the avoided areas and roads that the route request depends on
+  const avoidKey = [
+    ...avoidAreas.filter((area) => area.enabled).map((area) => area.id),
+    ...preferences.avoidRoads,
+  ].join(",");
+
+  // Map click which closes the context menu, places a waypoint in placement mode, or switches to an alternate route when one is clicked
   const handleMapClick = (e: MapLayerMouseEvent) => {
     if (contextMenu.visible) {
       setContextMenu({ ...contextMenu, visible: false });
+      return;
+    }
+
+    if (isPlacing) {
+      placeWaypoint([e.lngLat.lng, e.lngLat.lat]);
+      return;
+    }
+    // The clicks make up the drawn shape
+    if (isDrawing) return;
+
+    const alternativeFeature = e.features?.find(
+      (feature) =>
+        feature.layer?.id === `route-alternatives-line-${currentRoute.id}`
+    );
+    if (alternativeFeature) {
+      selectAlternative(alternativeFeature.properties?.index);
+      return;
     }
+
+    // A saved route opens its popup where it was clicked, and a click anywhere else lets go of it
+    const savedRouteFeature = e.features?.find(
+      (feature) => feature.layer?.id === "saved-routes-line"
+    );
+    if (savedRouteFeature) {
+      const routeId = savedRouteFeature.id as number;
+      setSelectedRouteId(routeId);
+      setRoutePopup({
+        routeId,
+        longitude: e.lngLat.lng,
+        latitude: e.lngLat.lat,
+      });
+    } else {
+      setSelectedRouteId(null);
+      setRoutePopup(null);
+    }
+  };
+
+  // Makes one of the alternate routes the current route
+  const selectAlternative = (index: number) => {
+    recordEdit();
+    setCurrentRoute((prev) =>
+      prev.alternatives[index]
+        ? {
+            ...prev,
+            geometry: prev.alternatives[index].geometry,
+            selectedAlternative: index,
+          }
+        : prev
+    );
   };
 
-  // Handle setting origin or destination from context menu
-  const handleMenuItemClick = async (action: "origin" | "destination") => {
+  // Handle setting origin, destination or an intermediate stop from context menu
+  const handleMenuItemClick = async (
+    action: "origin" | "destination" | "stop"
+  ) => {
     const { lngLat } = contextMenu;
-    const address = await reverseGeocode(lngLat.lng, lngLat.lat);
+    closeContextMenu();
+    recordEdit();
+    const restores = historyRestores.current;
+    const address = await reverseGeocode(
+      lngLat.lng,
+      lngLat.lat,
+      action === "stop" ? `${currentRoute.stops.length}` : action
+    );
+    // Undone while the address was looked up
+    if (restores !== historyRestores.current) return;
+    const waypoint: Waypoint = {
+      coordinates: [lngLat.lng, lngLat.lat],
+      address,
+    };
 
     if (action === "origin") {
       setCurrentRoute((prev) => ({
         ...prev,
-        origin: {
-          coordinates: [lngLat.lng, lngLat.lat],
-          address,
-        },
+        origin: waypoint,
       }));
     } else if (action === "destination") {
       setCurrentRoute((prev) => ({
         ...prev,
-        destination: {
-          coordinates: [lngLat.lng, lngLat.lat],
-          address,
-        },
+        destination: waypoint,
+      }));
+    } else if (action === "stop") {
+      // New stops are visited last, right before the destination
+      setCurrentRoute((prev) => ({
+        ...prev,
+        stops: [...prev.stops, waypoint],
       }));
     }
-
-    setContextMenu({ ...contextMenu, visible: false });
   };
 
   // Reverse geocode to get address from coordinates
   // The address isthen updated in the left panel where the addresses match the origin and destination dynamically
-  const reverseGeocode = async (lng: number, lat: number) => {
-    const key = `${lng.toFixed(5)},${lat.toFixed(5)}`;
-    if (reverseGeocodeCache.has(key)) {
-      return reverseGeocodeCache.get(key);
-    }
-
-    const url = `${mapboxGeocodingApi}/${lng},${lat}.json?access_token=${mapboxgl.accessToken}`;
+  // Lookups are cached and shared by the geocoding service.
+  // The lookup key marks the address field that shows the lookup is in progress.
+  const reverseGeocode = async (
+    lng: number,
+    lat: number,
+    lookupKey?: string
+  ) => {
+    if (lookupKey) setAddressLookups((prev) => [...prev, lookupKey]);
     try {
-      const response = await fetch(url);
-      const data = await response.json();
-      if (data?.features.length > 0) {
-        const address = data.features[0].place_name;
-        // Cached if the same address is hit back again.
-        // This can be common since the user is likely to be working on the same area.
-        reverseGeocodeCache.set(key, address);
-        return address;
-      } else {
-        return "Unknown Location";
-      }
+      return (
+        (await geocodingService.reverseGeocode(lng, lat)) || "Unknown Location"
+      );
     } catch (error) {
       console.error("Error reverse geocoding:", error);
+      checkTokenError(error);
+      setAddressError(
+        `The address couldn't be looked up. ${getErrorMessage(error)}`
+      );
       return "Unknown Location";
+    } finally {
+      if (lookupKey) {
+        setAddressLookups((prev) => {
+          const index = prev.indexOf(lookupKey);
+          return prev.filter((_, i) => i !== index);
+        });
+      }
     }
   };
 
-  // Fetch route when origin, destination, or rerouteSnapPoint changes
+  // Stop coordinates joined into a string so that only coordinate changes (not address updates) trigger a re-fetch
+  const stopCoordinatesKey = currentRoute.stops
+    .map((stop) => stop.coordinates.join(","))
+    .join(";");
+  const viaPointsKey = currentRoute.viaPoints
+    .map((viaPoint) => `${viaPoint.leg}:${viaPoint.coordinates.join(",")}`)
+    .join(";");
+
+  // A restored route already has the geometry for its waypoints, so it isn't fetched again (which would also reset the chosen alternative)
+  const restoredRequestKey = useRef<string | null>(
+    currentRoute.geometry ? getRouteRequestKey(currentRoute) : null
+  );
+
+  // Bumped by the retry action of the error banner to fetch the current route again
+  const [routeRetryCount, setRouteRetryCount] = useState(0);
+  // Requests are numbered so that a slow response can't replace the route of a newer one (e.g. while dragging a marker)
+  const routeRequestId = useRef(0);
+  const appliedRouteRequestId = useRef(0);
+
+  // Fetch route when origin, stops, destination, via points or the profile change
   useEffect(() => {
+    const isRestored =
+      restoredRequestKey.current === getRouteRequestKey(currentRoute);
+    restoredRequestKey.current = null;
+    if (isRestored) return;
+
+    const requestId = ++routeRequestId.current;
+    // Cancels the request, or the wait for a retry, once it is replaced
+    const controller = new AbortController();
+
     const fetchRoute = async () => {
-      if (currentRoute.origin && currentRoute.destination) {
-        const coordinates = [
-          currentRoute.origin.coordinates,
-          ...(currentRoute.rerouteSnapPoint
-            ? [currentRoute.rerouteSnapPoint]
-            : []),
-          currentRoute.destination.coordinates,
-        ];
-
-        const coordinatesString = coordinates
-          .map((coord) => `${coord[0]},${coord[1]}`)
-          .join(";");
-
-        // Use the 'continue_straight' parameter to avoid U-turns - these look like double dips on the same route
-        // TODO This doesn't completely get rid of turning back from different roads on the same route (opposite road). But prevents the other lane on the same road.
-        const url = `${mapboxDirectionsApi}/${coordinatesString}?geometries=geojson&continue_straight=true&access_token=${mapboxgl.accessToken}`;
-
-        try {
-          const response = await fetch(url);
-          const data = await response.json();
-
-          if (data.routes && data.routes.length > 0) {
-            const geometry = data.routes[0].geometry;
-
-            setCurrentRoute((prev) => ({
-              ...prev,
-              geometry,
-            }));
-          }
-        } catch (error) {
-          console.error("Error fetching route:", error);
-        }
+      if (!(currentRoute.origin && currentRoute.destination)) {
+        appliedRouteRequestId.current = requestId;
+        setIsRouteLoading(false);
+        setRouteError(null);
+        return;
+      }
+
+      setIsRouteLoading(true);
+      try {
+        // Connection, server and rate limit failures are retried with backoff before the error is shown
+        const alternatives = preferAvoidingAreas(
+          await retryWithBackoff(
+            () =>
+              routingService.getDirections(currentRoute, currentRoute.profile, {
+                exclude: preferences.avoidRoads,
+                avoidPoints: getAvoidPoints(avoidAreas),
+                signal: controller.signal,
+              }),
+            { signal: controller.signal }
+          ),
+          avoidAreas
+        );
+        if (requestId < appliedRouteRequestId.current) return;
+        appliedRouteRequestId.current = requestId;
+
+        setCurrentRoute((prev) => ({
+          ...prev,
+          geometry: alternatives[0].geometry,
+          alternatives,
+          selectedAlternative: 0,
+        }));
+        setRouteError(null);
+      } catch (error) {
+        if (isAbortError(error) || requestId < appliedRouteRequestId.current)
+          return;
+        appliedRouteRequestId.current = requestId;
+
+        console.error("Error fetching route:", error);
+        checkTokenError(error);
+        setRouteError({
+          error,
+          retry: () => setRouteRetryCount((count) => count + 1),
+        });
+      } finally {
+        if (requestId === routeRequestId.current) setIsRouteLoading(false);
       }
     };
 
     fetchRoute();
+    return () => controller.abort();
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [
     // The suggestion of the warning here (disabled) doesn't work because there are other parameters in the origin and destination that changes dynamically.
     // Which results in flickering and flaky behaviour. So specifying ecah property in the dependencies.
     currentRoute.origin?.coordinates,
+    stopCoordinatesKey,
     currentRoute.destination?.coordinates,
-    currentRoute.rerouteSnapPoint,
+    viaPointsKey,
+    currentRoute.profile,
+    routeRetryCount,
+    avoidKey,
   ]);
 
+  // Fills in the address of a waypoint that was placed without one
+  const lookUpWaypointAddress = async (
+    slot: WaypointSlot,
+    waypoint: Waypoint
+  ) => {
+    const address = await reverseGeocode(
+      waypoint.coordinates[0],
+      waypoint.coordinates[1],
+      `${slot}`
+    );
+    // Skipped if the waypoint was moved or removed in the meantime
+    setCurrentRoute((prev) =>
+      getWaypoint(prev, slot)?.coordinates === waypoint.coordinates
+        ? setWaypoint(prev, slot, { ...waypoint, address })
+        : prev
+    );
+  };
+
+  // Linked waypoints come without addresses, they are looked up once the link is opened
+  useEffect(() => {
+    getOrderedWaypoints(currentRoute).forEach((waypoint, index) => {
+      if (!waypoint.address) {
+        lookUpWaypointAddress(getWaypointSlot(index), waypoint);
+      }
+    });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  // The map view, kept in the link along with the current route plan
+  const [mapView, setMapView] = useState<MapView>(
+    deepLink?.view || DEFAULT_MAP_VIEW
+  );
+
+  // The URL always links to the current plan, so it can be copied from the address bar or with the copy button
+  const routeRequestKey = getRouteRequestKey(currentRoute);
+  useEffect(() => {
+    window.history.replaceState(
+      null,
+      "",
+      toDeepLink(currentRoute, currentRoute.profile, mapView)
+    );
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [routeRequestKey, mapView]);
+
+  const {
+    tripEnd,
+    setTripEnd,
+    optimizedTrip,
+    setOptimizedTrip,
+    isOptimizing,
+    optimizeError,
+    optimizeOrder,
+  } = useOptimizeOrder(
+    currentRoute,
+    preferences.walkingPace,
+    () => latestSnapshot.current.currentRoute,
+    checkTokenError
+  );
+
+  const handleApplyOptimizedTrip = () => {
+    if (!optimizedTrip) return;
+
+    recordEdit();
+    setCurrentRoute((prev) =>
+      applyTripOrder(prev, optimizedTrip.order, optimizedTrip.end)
+    );
+    setOptimizedTrip(null);
+  };
+
+  const {
+    loopCandidates,
+    clearLoops,
+    loopPreview,
+    setLoopPreview,
+    isGeneratingLoop,
+    loopError,
+    generateLoop,
+  } = useLoops(
+    currentRoute,
+    () => latestSnapshot.current.currentRoute,
+    checkTokenError
+  );
+
+  // The loop replaces the stops and destination of the current route. It's already routed, so it isn't fetched again.
+  const handleAdoptLoop = (candidate: LoopCandidate) => {
+    const { origin } = currentRoute;
+    if (!origin) return;
+
+    recordEdit();
+    const route: CurrentRoute = {
+      ...toLoopRoute(currentRoute, origin, candidate),
+      geometry: candidate.alternative.geometry,
+      alternatives: [candidate.alternative],
+      selectedAlternative: 0,
+    };
+    appliedRouteRequestId.current = ++routeRequestId.current;
+    restoredRequestKey.current = getRouteRequestKey(route);
+    setIsRouteLoading(false);
+    setRouteError(null);
+    setCurrentRoute(route);
+    clearLoops();
+    route.stops.forEach((stop, index) => lookUpWaypointAddress(index, stop));
+  };
+
+  const {
+    reachableCenter,
+    setReachableCenter,
+    isochrones,
+    hiddenBands,
+    isIsochroneLoading,
+    isochroneError,
+    clearReachableArea,
+    toggleBand,
+  } = useIsochrones(
+    currentRoute.profile,
+    preferences.isochrones,
+    checkTokenError
+  );
+
+  // The area goes under this layer: the alternates of the current route when it has a line, the saved routes otherwise
+  const lowestRouteLayerId = currentRoute.geometry
+    ? `route-alternatives-line-${currentRoute.id}`
+    : "saved-routes-line";
+
+  const handleShowReachableArea = () => {
+    const { lngLat } = contextMenu;
+    closeContextMenu();
+    setReachableCenter([lngLat.lng, lngLat.lat]);
+  };
+
+  // The visible part of the map as [west, south, east, north], known once the map has loaded
+  const [mapBounds, setMapBounds] = useState<
+    [number, number, number, number] | null
+  >(null);
+
+  const updateMapBounds = () => {
+    const bounds = mapRef.current?.getBounds();
+    if (bounds) setMapBounds(bounds.toArray().flat() as typeof mapBounds);
+  };
+
+  // Address searches are biased to and filtered by what the map shows, as set in the search preferences
+  const mapCenter: [number, number] = [mapView.longitude, mapView.latitude];
+  const searchOptions: SearchOptions = {
+    proximity: preferences.search.nearMapCenter ? mapCenter : undefined,
+    bbox: preferences.search.withinMapView && mapBounds ? mapBounds : undefined,
+    countries: preferences.search.countries,
+    language: preferences.search.language,
+    types: preferences.search.placeTypes,
+  };
+
+  const [isLinkCopied, setIsLinkCopied] = useState(false);
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setIsLinkCopied(true);
+      window.setTimeout(() => setIsLinkCopied(false), 2000);
+    } catch (error) {
+      console.error("Error copying link:", error);
+    }
+  };
+
+  const restoreSnapshot = (snapshot: EditSnapshot) => {
+    // Responses for the replaced waypoints are dropped
+    appliedRouteRequestId.current = ++routeRequestId.current;
+    // The geometry is kept unless the route was still being fetched when the snapshot was taken
+    restoredRequestKey.current =
+      snapshot.isRouteSettled && snapshot.currentRoute.geometry
+        ? getRouteRequestKey(snapshot.currentRoute)
+        : null;
+    setIsRouteLoading(false);
+    setRouteError(null);
+
+    setRoutes(snapshot.routes);
+    setCurrentRoute(snapshot.currentRoute);
+    setRouteCounter(snapshot.routeCounter);
+  };
+
+  const { history, latestSnapshot, historyRestores, recordEdit, undo, redo } =
+    useEditHistory(
+      { routes, currentRoute, routeCounter, isRouteSettled: !isRouteLoading },
+      restoreSnapshot
+    );
+
   // Handle dragging the route line (route-snapping) which will re-route
   const [isDragging, setIsDragging] = useState(false);
+  // Where the via point of the current drag goes, worked out from the grabbed segment on mouse down.
+  // 'inserted' is set once the via point has been added, later updates then move it.
+  const dragTarget = useRef<{
+    leg: number;
+    index: number;
+    inserted: boolean;
+  } | null>(null);
+
+  // Adds the dragged via point on the first update, moves it afterwards
+  const updateDraggedViaPoint = (coordinates: [number, number]) => {
+    const target = dragTarget.current;
+    if (!target) return;
+
+    const wasInserted = target.inserted;
+    target.inserted = true;
+
+    setCurrentRoute((prev) => ({
+      ...prev,
+      viaPoints: wasInserted
+        ? prev.viaPoints.map((viaPoint, index) =>
+            index === target.index ? { ...viaPoint, coordinates } : viaPoint
+          )
+        : insertViaPoint(prev.viaPoints, target.index, {
+            coordinates,
+            leg: target.leg,
+          }),
+    }));
+  };
 
   const handleMouseDown = (e: MapLayerMouseEvent) => {
-    if (!ENABLE_ROUTE_SNAPPING) return;
+    // Clicks on the route line place waypoints in placement mode, or make up the drawn shape
+    if (!ENABLE_ROUTE_SNAPPING || isPlacing || isDrawing) return;
     // If the pointer is clicked on a route line, sets dragging to true (enables dragging behaviour)
+    // Saved routes can be drawn over it, so any of the features under the pointer may be the route line
     if (
-      e.features &&
-      e.features?.length > 0 &&
-      e.features[0].layer?.id === `route-line-${currentRoute.id}`
+      e.features?.some(
+        (feature) => feature.layer?.id === `route-line-${currentRoute.id}`
+      ) &&
+      canAddStop(currentRoute)
     ) {
       e.preventDefault();
+      recordEdit();
+      dragTarget.current = {
+        ...findViaPointInsertion(
+          currentRoute,
+          currentRoute.geometry.coordinates,
+          [e.lngLat.lng, e.lngLat.lat]
+        ),
+        inserted: false,
+      };
       setIsDragging(true);
       if (mapRef.current) {
         mapRef.current.getCanvas().style.cursor = "grabbing";
@@ -207,39 +809,25 @@ const App: React.FC = () => {
     const lngLat = [e.lngLat.lng, e.lngLat.lat] as [number, number];
 
     if (currentRoute.geometry) {
+      const restores = historyRestores.current;
       // Snap the point to the road network
       snapPointToRoad(lngLat).then((snappedPoint: any) => {
-        // Update the snapped point
-        setCurrentRoute((prev) => ({
-          ...prev,
-          rerouteSnapPoint: snappedPoint,
-        }));
+        if (restores !== historyRestores.current) return;
+        // Update the snapped point, the drag is finished afterwards
+        updateDraggedViaPoint(snappedPoint);
+        dragTarget.current = null;
       });
     }
   };
 
-  // Snap point to road network using Map Matching API
+  // Snap point to road network using the routing backend
   const snapPointToRoad = async (
     point: [number, number]
   ): Promise<[number, number]> => {
     if (!ENABLE_ROUTE_SNAPPING) return point;
 
-    const url = `https://api.mapbox.com/matching/v5/mapbox/walking/${point[0]},${point[1]}?access_token=${mapboxgl.accessToken}&geometries=geojson`;
-
-    try {
-      const response = await fetch(url);
-      const data = await response.json();
-
-      if (data.matchings && data.matchings.length > 0) {
-        const snappedPoint = data.matchings[0].geometry.coordinates[0];
-        return snappedPoint as [number, number];
-      }
-    } catch (error) {
-      console.error("Error snapping point to road:", error);
-    }
-
-    // If snapping fails, return the original point
-    return point;
+    // Snapped with the current route's profile, e.g. walking paths are not snapped to for a driving route
+    return routingService.snapPoint(point, currentRoute.profile);
   };
 
   // Debounce to avoid excessive api calls and rate limit errors
@@ -247,6 +835,10 @@ const App: React.FC = () => {
 
   // Re routing the current line as the mouse is moving
   const handleMouseMove = (e: MapLayerMouseEvent) => {
+    setHoveredRoute(
+      (e.features?.find((feature) => feature.layer?.id === "saved-routes-line")
+        ?.id as number) ?? null
+    );
     if (!isDragging) return;
 
     if (!ENABLE_ROUTE_SNAPPING) return;
@@ -257,17 +849,42 @@ const App: React.FC = () => {
     if (currentRoute.geometry) {
       // Use the debounced function
       debouncedSnapPointToRoad(lngLat)?.then((snappedPoint: any) => {
-        setCurrentRoute((prev) => ({
-          ...prev,
-          rerouteSnapPoint: snappedPoint,
-        }));
+        updateDraggedViaPoint(snappedPoint);
       });
     }
   };
 
+  const {
+    savedRouteLines,
+    savedRouteEndpoints,
+    setHoveredRoute,
+    selectedRouteId,
+    setSelectedRouteId,
+    routePopup,
+    setRoutePopup,
+    popupRoute,
+  } = useSavedRouteLayers(mapRef, routes, currentRoute.id);
+
+  const fitToRoute = (route: Route) => {
+    const coordinates: [number, number][] =
+      route.geometry?.type === "LineString" ? route.geometry.coordinates : [];
+    if (mapRef.current && coordinates.length > 1) {
+      mapRef.current.fitBounds(getBounds(coordinates), { padding: 80 });
+    }
+  };
+
+  const handleSelectSavedRoute = (route: Route) => {
+    setSelectedRouteId(route.id);
+    setRoutePopup(null);
+    fitToRoute(route);
+  };
+
   // Handle cursor style by changing it to a grab icon to indicate succesful snap
   // TODO this doesn't work all the time for some reason (graps but doesn't change the icon)
   const handleMouseEnter = (e: MapLayerMouseEvent) => {
+    // The crosshair of placement mode stays on
+    if (isPlacing) return;
+
     if (
       e.features &&
       e.features.length > 0 &&
@@ -276,123 +893,303 @@ const App: React.FC = () => {
       if (mapRef.current) {
         mapRef.current.getCanvas().style.cursor = "grab";
       }
+    } else if (
+      e.features &&
+      e.features.length > 0 &&
+      (e.features[0].layer?.id ===
+        `route-alternatives-line-${currentRoute.id}` ||
+        e.features[0].layer?.id === "saved-routes-line")
+    ) {
+      // Alternate and saved routes are clickable
+      if (mapRef.current) {
+        mapRef.current.getCanvas().style.cursor = "pointer";
+      }
     }
   };
 
   // Restore the mouse style
   const handleMouseLeave = (e: MapLayerMouseEvent) => {
+    setHoveredRoute(null);
     if (
       e.features &&
       e.features.length > 0 &&
-      e.features[0].layer?.id === `route-line-${currentRoute.id}`
+      (e.features[0].layer?.id === `route-line-${currentRoute.id}` ||
+        e.features[0].layer?.id ===
+          `route-alternatives-line-${currentRoute.id}` ||
+        e.features[0].layer?.id === "saved-routes-line")
     ) {
-      if (!isDragging && mapRef.current) {
+      if (!isDragging && !isPlacing && mapRef.current) {
         mapRef.current.getCanvas().style.cursor = "";
       }
     }
   };
 
-  // Re-routing when the origin or destination marker is dragged around
+  // Re-routing when the origin, destination or a stop marker is dragged around
   const handleCurrentMarkerDrag = (
     event: MarkerDragEvent,
-    type: "origin" | "destination"
+    slot: WaypointSlot
   ) => {
     const lngLat = [event.lngLat.lng, event.lngLat.lat] as [number, number];
 
-    if (type === "origin") {
-      setCurrentRoute((prev) => ({
-        // The address textbox on the left panel is also updated as coordinates change
-        ...prev,
-        origin: {
-          ...prev.origin,
+    // The address textbox on the left panel is also updated as coordinates change
+    setCurrentRoute((prev) =>
+      setWaypoint(prev, slot, {
+        coordinates: lngLat,
+        address: getWaypoint(prev, slot)?.address || "Unknown Address",
+      })
+    );
+  };
+
+  // Debouncing to stabilise the route updates
+  const debouncedUpdateRoute = debounce(
+    async (lngLat: [number, number], slot: WaypointSlot, restores: number) => {
+      const address = await reverseGeocode(lngLat[0], lngLat[1], `${slot}`);
+      // The drag was undone in the meantime
+      if (restores !== historyRestores.current) return;
+
+      setCurrentRoute((prev) =>
+        setWaypoint(prev, slot, {
           coordinates: lngLat,
-          address: prev.origin?.address || "Unknown Address",
-        },
-      }));
-    } else if (type === "destination") {
+          address,
+        })
+      );
+      // The route is fetched again by the effect watching the waypoints
+    },
+    1000 // TODO Delay in milliseconds, this was used to be 2 but that was too long. Considering a bit less than a second (feedback first)
+  );
+
+  // Handle dragging origin, destination or a stop
+  const handleCurrentMarkerDragEnd = (
+    event: MarkerDragEvent,
+    slot: WaypointSlot
+  ) => {
+    const lngLat = [event.lngLat.lng, event.lngLat.lat] as [number, number];
+
+    // Call the debounced function
+    debouncedUpdateRoute(lngLat, slot, historyRestores.current);
+  };
+
+  // Via point handles can be dragged again to reshape their leg, the dropped point is snapped to the road
+  const handleViaPointDragEnd = (event: MarkerDragEvent, index: number) => {
+    const lngLat = [event.lngLat.lng, event.lngLat.lat] as [number, number];
+    const restores = historyRestores.current;
+
+    snapPointToRoad(lngLat).then((snappedPoint) => {
+      if (restores !== historyRestores.current) return;
       setCurrentRoute((prev) => ({
         ...prev,
-        destination: {
-          ...prev.destination,
-          coordinates: lngLat,
-          address: prev.destination?.address || "Unknown Address",
-        },
+        viaPoints: prev.viaPoints.map((viaPoint, i) =>
+          i === index ? { ...viaPoint, coordinates: snappedPoint } : viaPoint
+        ),
       }));
-    }
+    });
   };
 
-  const fetchRoute = async () => {
-    if (currentRoute.origin && currentRoute.destination) {
-      const coordinates = [
-        currentRoute.origin.coordinates,
-        ...(currentRoute.rerouteSnapPoint
-          ? [currentRoute.rerouteSnapPoint]
-          : []),
-        currentRoute.destination.coordinates,
-      ];
+  // Double-clicking a via point handle removes it, the leg is then routed without it
+  const handleViaPointDoubleClick = (e: React.MouseEvent, index: number) => {
+    e.stopPropagation();
+    recordEdit();
+    setCurrentRoute((prev) => ({
+      ...prev,
+      viaPoints: removeViaPoint(prev.viaPoints, index),
+    }));
+  };
 
-      const coordinatesString = coordinates
-        .map((coord) => `${coord[0]},${coord[1]}`)
-        .join(";");
+  // The ordered waypoint list in the left panel - origin, stops and destination
+  const orderedWaypoints = getOrderedWaypoints(currentRoute);
+  const canReorder = !!(currentRoute.origin && currentRoute.destination);
 
-      // Use the 'continue_straight' parameter to avoid U-turns
-      const url = `${mapboxDirectionsApi}/${coordinatesString}?geometries=geojson&continue_straight=true&access_token=${mapboxgl.accessToken}`;
+  const getWaypointSlot = (index: number): WaypointSlot => {
+    if (currentRoute.origin && index === 0) return "origin";
+    if (currentRoute.destination && index === orderedWaypoints.length - 1)
+      return "destination";
+    return currentRoute.origin ? index - 1 : index;
+  };
 
-      // Fetch the route with the given coordinates
-      try {
-        const response = await fetch(url);
-        const data = await response.json();
+  const getWaypointLabel = (slot: WaypointSlot) => {
+    if (slot === "origin") return "Origin:";
+    if (slot === "destination") return "Destination:";
+    return `Stop ${slot + 1}:`;
+  };
 
-        if (data.routes && data.routes.length > 0) {
-          // Single route with the geometry
-          const geometry = data.routes[0].geometry;
+  // Turn-by-turn instructions of the selected alternative
+  const currentRouteSteps = currentRoute.geometry
+    ? currentRoute.alternatives[currentRoute.selectedAlternative]?.steps || []
+    : [];
 
-          setCurrentRoute((prev) => ({
-            ...prev,
-            geometry,
-          }));
-        }
-      } catch (error) {
-        console.error("Error fetching route:", error);
-      }
+  // The step hovered or clicked in an instruction list, highlighted on the map
+  const [highlightedStep, setHighlightedStep] = useState<RouteStep | null>(
+    null
+  );
+
+  // The steps belong to the previous geometry once the current route changes
+  useEffect(() => {
+    setHighlightedStep(null);
+  }, [currentRoute.geometry]);
+
+  // Highlights the step and flies the camera to it
+  const handleStepSelect = (step: RouteStep) => {
+    setHighlightedStep(step);
+
+    const coordinates: [number, number][] = step.geometry?.coordinates || [];
+    if (!mapRef.current) return;
+    if (coordinates.length > 1) {
+      mapRef.current.fitBounds(getBounds(coordinates), {
+        padding: 80,
+        maxZoom: 17,
+      });
+    } else {
+      // Arrival steps have no length, just their maneuver location
+      mapRef.current.flyTo({ center: step.location, zoom: 17 });
     }
   };
 
-  // Debouncing to stabilise the route updates
-  const debouncedUpdateRoute = debounce(
-    async (lngLat: [number, number], type: "origin" | "destination") => {
-      const address = await reverseGeocode(lngLat[0], lngLat[1]);
+  const crossedAvoidAreas = findCrossedAreas(currentRoute.geometry, avoidAreas);
+  const canFindAlternatives = routingService.canFindAlternatives(currentRoute);
 
-      setCurrentRoute((prev) => {
-        const updatedWaypoint: Waypoint = {
-          coordinates: lngLat,
-          address,
-        };
-
-        let newCurrentRoute = { ...prev };
-        if (type === "origin") {
-          newCurrentRoute.origin = updatedWaypoint;
-        } else if (type === "destination") {
-          newCurrentRoute.destination = updatedWaypoint;
-        }
-        return newCurrentRoute;
-      });
-
-      // Fetch the new route after updating the origin/destination
-      fetchRoute();
-    },
-    1000 // TODO Delay in milliseconds, this was used to be 2 but that was too long. Considering a bit less than a second (feedback first)
+  // The current route is a saved route loaded back for editing
+  const isEditingSavedRoute = routes.some(
+    (route) => route.id === currentRoute.id
   );
 
-  // Handle dragging origin or destination
-  const handleCurrentMarkerDragEnd = (
-    event: MarkerDragEvent,
-    type: "origin" | "destination"
-  ) => {
-    const lngLat = [event.lngLat.lng, event.lngLat.lat] as [number, number];
+  // Saves the current route as a new route, or updates the saved route being edited
+  const handleSaveRoute = () => {
+    const routeChanges = toSavedRouteChanges(currentRoute);
+    if (!routeChanges) return;
 
-    // Call the debounced function
-    debouncedUpdateRoute(lngLat, type);
+    recordEdit();
+
+    if (isEditingSavedRoute) {
+      // Name, notes, visibility and color are kept
+      updateSavedRoute(currentRoute.id, routeChanges);
+      setCurrentRoute(createCurrentRoute(routeCounter, currentRoute.profile));
+      return;
+    }
+
+    const newRouteId = routeCounter;
+    setRoutes([
+      ...routes,
+      {
+        id: newRouteId,
+        ...routeChanges,
+        name: `Route ${newRouteId}`,
+        notes: "",
+        hidden: false,
+        color: getDefaultRouteColor(newRouteId),
+      },
+    ]);
+    // The next route is planned with the same profile
+    setCurrentRoute(createCurrentRoute(newRouteId + 1, currentRoute.profile));
+    setRouteCounter(newRouteId + 1);
+  };
+
+  const updateSavedRoute = (id: number, changes: Partial<Route>) => {
+    setRoutes((prev) =>
+      prev.map((route) => (route.id === id ? { ...route, ...changes } : route))
+    );
+  };
+
+  // Loads a saved route into the current route. A route that is being planned and not saved yet, or unsaved changes
+  //    to the saved route being edited, would be lost, so that is confirmed first.
+  const handleEditRoute = (route: Route) => {
+    if (route.id === currentRoute.id) return;
+    const editedRoute = routes.find((saved) => saved.id === currentRoute.id);
+    if (
+      hasUnsavedChanges(currentRoute, routes) &&
+      !window.confirm(
+        editedRoute
+          ? `Discard the changes to "${editedRoute.name}"?`
+          : "Discard the route that is being planned?"
+      )
+    )
+      return;
+
+    recordEdit();
+    // The saved geometry matches the waypoints, so there is no need to fetch it again
+    restoredRequestKey.current = getRouteRequestKey(toCurrentRoute(route));
+    setCurrentRoute(toCurrentRoute(route));
+  };
+
+  const startNewRoute = () => {
+    setCurrentRoute(createCurrentRoute(routeCounter, currentRoute.profile));
+  };
+
+  // Leaves editing without applying the changes to the saved route
+  const handleCancelEdit = () => {
+    recordEdit();
+    startNewRoute();
+  };
+
+  const handleDeleteRoute = (route: Route) => {
+    if (!window.confirm(`Delete "${route.name}"?`)) return;
+
+    recordEdit();
+    setRoutes((prev) =>
+      prev.filter((savedRoute) => savedRoute.id !== route.id)
+    );
+    if (route.id === currentRoute.id) {
+      startNewRoute();
+    }
+  };
+
+  // Takes the next free route IDs. A new current route holds the next ID, so it is moved past the taken ones
+  //    (a saved route being edited has a lower one). Called after awaits, so it goes by the latest state.
+  const reserveRouteIds = (count: number) => {
+    const firstId = latestSnapshot.current.routeCounter;
+    setRouteCounter(firstId + count);
+    setCurrentRoute((prev) =>
+      prev.id === firstId ? { ...prev, id: firstId + count } : prev
+    );
+    return firstId;
+  };
+
+  const {
+    isImporting,
+    mapMatchImports,
+    setMapMatchImports,
+    importErrors,
+    importFiles,
+    isFileOver,
+    handleFileDragOver,
+    handleFileDragLeave,
+    handleFileDrop,
+  } = useRouteImport(currentRoute.profile, reverseGeocode, (importedRoutes) => {
+    recordEdit();
+    const firstId = reserveRouteIds(importedRoutes.length);
+    setRoutes((prev) => [
+      ...prev,
+      ...importedRoutes.map((route, index) => ({
+        ...route,
+        id: firstId + index,
+        color: getDefaultRouteColor(firstId + index),
+      })),
+    ]);
+  });
+
+  // Re-fetches a saved route under another profile, keeping its waypoints and via points
+  const handleSavedRouteProfileChange = async (
+    route: Route,
+    profile: RoutingProfile
+  ) => {
+    try {
+      const alternatives = await retryWithBackoff(() =>
+        routingService.getDirections(route, profile)
+      );
+      recordEdit();
+      updateSavedRoute(route.id, {
+        profile,
+        geometry: alternatives[0].geometry,
+        alternatives,
+        selectedAlternative: 0,
+      });
+    } catch (error) {
+      console.error("Error fetching route:", error);
+      checkTokenError(error);
+      setRouteError({
+        error,
+        retry: () => handleSavedRouteProfileChange(route, profile),
+      });
+    }
   };
 
   return (
@@ -406,71 +1203,253 @@ const App: React.FC = () => {
           overflowY: "auto",
         }}
       >
+        {/* Undo/redo of the route edits */}
+        <div style={{ marginBottom: "10px" }}>
+          <button
+            title="Undo (Ctrl+Z)"
+            disabled={history.past.length === 0}
+            onClick={undo}
+          >
+            ↶ Undo
+          </button>
+          <button
+            title="Redo (Ctrl+Shift+Z)"
+            disabled={history.future.length === 0}
+            onClick={redo}
+          >
+            ↷ Redo
+          </button>
+        </div>
+
+        <PreferencesPanel preferences={preferences} onChange={setPreferences} />
+        <SearchPreferencesPanel
+          search={preferences.search}
+          onChange={(search) => setPreferences((prev) => ({ ...prev, search }))}
+        />
+        <AvoidAreasPanel
+          areas={avoidAreas}
+          crossedAreaIds={crossedAvoidAreas.map((area) => area.id)}
+          isDrawing={isDrawingAvoidArea}
+          onDrawingChange={(isDrawing) =>
+            setMapMode(isDrawing ? "avoid" : null)
+          }
+          onAreaChange={updateAvoidArea}
+          onAreaDelete={deleteAvoidArea}
+          onAreaZoom={handleAvoidAreaZoom}
+          avoidRoads={preferences.avoidRoads}
+          excludableRoads={routingService.getExcludableRoads(
+            currentRoute.profile
+          )}
+          onAvoidRoadsChange={(avoidRoads) =>
+            setPreferences((prev) => ({ ...prev, avoidRoads }))
+          }
+        />
+
         {/* Current route */}
         {currentRoute && (
           <div style={{ marginBottom: "20px" }}>
             <h3>Current Route</h3>
-            {currentRoute.origin && (
+            <div style={{ marginBottom: "10px" }}>
+              <label>Profile: </label>
+              <select
+                value={currentRoute.profile}
+                onChange={(e) => {
+                  recordEdit();
+                  setCurrentRoute((prev) => ({
+                    ...prev,
+                    profile: e.target.value as RoutingProfile,
+                  }));
+                }}
+              >
+                {ROUTING_PROFILES.map(({ value, label }) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            {orderedWaypoints.map((waypoint, index) => {
+              const slot = getWaypointSlot(index);
+              return (
+                <div key={`${slot}-${index}`}>
+                  <div style={{ display: "flex", alignItems: "center" }}>
+                    <label style={{ flexGrow: 1 }}>
+                      {getWaypointLabel(slot)}
+                    </label>
+                    {/* Reordering is done over the whole list, so a stop can also become the origin or destination */}
+                    {canReorder && (
+                      <>
+                        <button
+                          title="Move up"
+                          disabled={index === 0}
+                          onClick={() => {
+                            recordEdit();
+                            setCurrentRoute((prev) =>
+                              moveWaypoint(prev, index, index - 1)
+                            );
+                          }}
+                        >
+                          ↑
+                        </button>
+                        <button
+                          title="Move down"
+                          disabled={index === orderedWaypoints.length - 1}
+                          onClick={() => {
+                            recordEdit();
+                            setCurrentRoute((prev) =>
+                              moveWaypoint(prev, index, index + 1)
+                            );
+                          }}
+                        >
+                          ↓
+                        </button>
+                      </>
+                    )}
+                    {typeof slot === "number" && (
+                      <button
+                        title="Remove stop"
+                        onClick={() => {
+                          recordEdit();
+                          setCurrentRoute((prev) => removeStop(prev, slot));
+                        }}
+                      >
+                        ✕
+                      </button>
+                    )}
+                  </div>
+                  <AddressEntry
+                    label={getWaypointLabel(slot)}
+                    value={waypoint.address}
+                    searchOptions={searchOptions}
+                    mapCenter={mapCenter}
+                    units={preferences.units}
+                    isLoading={addressLookups.includes(`${slot}`)}
+                    onSelect={(address, coords) => {
+                      recordEdit();
+                      setCurrentRoute((prev) =>
+                        setWaypoint(prev, slot, {
+                          coordinates: coords,
+                          address,
+                        })
+                      );
+                    }}
+                  />
+                </div>
+              );
+            })}
+            {canAddStop(currentRoute) && (
               <div>
-                <label>Origin:</label>
+                <label>Add Stop:</label>
+                {/* Keyed by the stop count so the textbox is cleared after each added stop */}
                 <AddressEntry
-                  value={currentRoute.origin.address}
+                  key={`new-stop-${currentRoute.stops.length}`}
+                  label="Add stop"
+                  value=""
+                  searchOptions={searchOptions}
+                  mapCenter={mapCenter}
+                  units={preferences.units}
+                  placeholder="Search for a stop"
+                  isLoading={addressLookups.includes(
+                    `${currentRoute.stops.length}`
+                  )}
                   onSelect={(address, coords) => {
+                    recordEdit();
                     setCurrentRoute((prev) => ({
                       ...prev,
-                      origin: {
-                        coordinates: coords,
-                        address,
-                      },
+                      stops: [...prev.stops, { coordinates: coords, address }],
                     }));
                   }}
                 />
               </div>
             )}
-            {currentRoute.destination && (
-              <div>
-                <label>Destination:</label>
-                <AddressEntry
-                  value={currentRoute.destination.address}
-                  onSelect={(address, coords) => {
-                    setCurrentRoute((prev) => ({
-                      ...prev,
-                      destination: {
-                        coordinates: coords,
-                        address,
-                      },
-                    }));
+            {/* Reordering needs at least one stop, the origin always stays first */}
+            {currentRoute.origin &&
+              currentRoute.destination &&
+              currentRoute.stops.length > 0 && (
+                <OptimizeOrderPanel
+                  end={tripEnd}
+                  onEndChange={(end) => {
+                    setTripEnd(end);
+                    setOptimizedTrip(null);
                   }}
+                  canRoundTrip={canMakeRoundTrip(currentRoute)}
+                  isOptimizing={isOptimizing}
+                  trip={optimizedTrip}
+                  error={optimizeError}
+                  units={preferences.units}
+                  onOptimize={optimizeOrder}
+                  onApply={handleApplyOptimizedTrip}
+                  onDismiss={() => setOptimizedTrip(null)}
                 />
+              )}
+            {/* Loops start from the origin, the stops and destination are replaced */}
+            {currentRoute.origin && (
+              <LoopPanel
+                isGenerating={isGeneratingLoop}
+                candidates={loopCandidates}
+                previewIndex={loopPreview}
+                error={loopError}
+                units={preferences.units}
+                profile={currentRoute.profile}
+                walkingPace={preferences.walkingPace}
+                onGenerate={generateLoop}
+                onPreview={setLoopPreview}
+                onAdopt={handleAdoptLoop}
+                onDismiss={clearLoops}
+              />
+            )}
+            {/* Alternate routes - the selected one is drawn as the current route line */}
+            {currentRoute.geometry && currentRoute.alternatives.length > 1 && (
+              <div style={{ marginBottom: "10px" }}>
+                <label>Alternatives:</label>
+                <ul style={{ listStyleType: "none", margin: 0, padding: 0 }}>
+                  {currentRoute.alternatives.map((alternative, index) => (
+                    <li
+                      key={index}
+                      onClick={() => selectAlternative(index)}
+                      style={{
+                        padding: "4px",
+                        cursor: "pointer",
+                        fontWeight:
+                          index === currentRoute.selectedAlternative
+                            ? "bold"
+                            : "normal",
+                      }}
+                    >
+                      Route {String.fromCharCode(65 + index)}:{" "}
+                      {formatDistance(alternative.distance, preferences.units)},{" "}
+                      {formatDuration(
+                        getAlternativeDuration(
+                          alternative,
+                          currentRoute.profile,
+                          preferences.walkingPace
+                        )
+                      )}
+                    </li>
+                  ))}
+                </ul>
               </div>
             )}
+            {/* The backends only look for alternatives between two points, so their absence is explained */}
+            {currentRoute.geometry && !canFindAlternatives && (
+              <p style={{ fontSize: "small", color: "#555555" }}>
+                Alternatives are only offered for routes without stops or
+                dragged points.
+              </p>
+            )}
+            {currentRoute.geometry && (
+              <RouteSummary
+                label="Total:"
+                distance={getRouteDistance(currentRoute)}
+                duration={getRouteDuration(
+                  currentRoute,
+                  preferences.walkingPace
+                )}
+                units={preferences.units}
+              />
+            )}
             <button
-              onClick={() => {
-                if (
-                  currentRoute.origin &&
-                  currentRoute.destination &&
-                  currentRoute.geometry
-                ) {
-                  const newRouteId = routeCounter;
-                  setRoutes([
-                    ...routes,
-                    {
-                      id: newRouteId,
-                      origin: currentRoute.origin,
-                      destination: currentRoute.destination,
-                      geometry: currentRoute.geometry,
-                    },
-                  ]);
-                  setCurrentRoute({
-                    id: newRouteId + 1,
-                    origin: null,
-                    destination: null,
-                    rerouteSnapPoint: null,
-                    geometry: null,
-                  });
-                  setRouteCounter(newRouteId + 1);
-                }
-              }}
+              onClick={handleSaveRoute}
               disabled={
                 !(
                   currentRoute.origin &&
@@ -479,21 +1458,94 @@ const App: React.FC = () => {
                 )
               }
             >
-              Save Route
+              {isEditingSavedRoute ? "Update Route" : "Save Route"}
             </button>
+            {isEditingSavedRoute && (
+              <button onClick={handleCancelEdit}>Cancel</button>
+            )}
+            <button
+              aria-pressed={isPlacing}
+              title="Click the map to set the origin, the destination and then stops (Esc to finish)"
+              onClick={() => setMapMode(isPlacing ? null : "place")}
+            >
+              {isPlacing ? "Stop placing" : "Place on map"}
+            </button>
+            <button
+              title="Copy a link to this route plan and map view"
+              onClick={handleCopyLink}
+            >
+              {isLinkCopied ? "Link copied" : "Copy link"}
+            </button>
+            {currentRouteSteps.length > 0 && (
+              <div style={{ marginTop: "10px" }}>
+                <label>Directions:</label>
+                <InstructionList
+                  steps={currentRouteSteps}
+                  units={preferences.units}
+                  highlightedStep={highlightedStep}
+                  onHover={setHighlightedStep}
+                  onSelect={handleStepSelect}
+                />
+              </div>
+            )}
           </div>
         )}
 
+        <ImportPanel
+          isImporting={isImporting}
+          mapMatch={mapMatchImports}
+          onMapMatchChange={setMapMatchImports}
+          onImport={importFiles}
+          errors={importErrors}
+        />
+
         {/* Saved Routes */}
         {routes.length > 0 && (
           <div>
-            <h3>Saved Routes</h3>
+            <div style={{ display: "flex", alignItems: "center" }}>
+              <h3 style={{ flexGrow: 1 }}>Saved Routes</h3>
+              <ExportMenu
+                label="Export all..."
+                onExport={(format) => exportRoutes(routes, format, "routes")}
+              />
+            </div>
+            <RouteSummary
+              label={`All ${routes.length} routes:`}
+              distance={routes.reduce(
+                (sum, route) => sum + getRouteDistance(route),
+                0
+              )}
+              duration={routes.reduce(
+                (sum, route) =>
+                  sum + (getRouteDuration(route, preferences.walkingPace) ?? 0),
+                0
+              )}
+              units={preferences.units}
+            />
             {routes.map((route) => (
-              <div key={route.id}>
-                <p>Route {route.id}</p>
-                <p>From: {route.origin.address}</p>
-                <p>To: {route.destination.address}</p>
-              </div>
+              <SavedRouteItem
+                key={route.id}
+                route={route}
+                isEditing={route.id === currentRoute.id}
+                isSelected={route.id === selectedRouteId}
+                onSelect={() => handleSelectSavedRoute(route)}
+                onChange={(changes) => {
+                  // Typing into the name or notes is undone in one step
+                  recordEdit(
+                    `route-${route.id}-${Object.keys(changes).join(",")}`
+                  );
+                  updateSavedRoute(route.id, changes);
+                }}
+                onProfileChange={(profile) =>
+                  handleSavedRouteProfileChange(route, profile)
+                }
+                onEdit={() => handleEditRoute(route)}
+                preferences={preferences}
+                highlightedStep={highlightedStep}
+                onStepHover={setHighlightedStep}
+                onStepSelect={handleStepSelect}
+                onDelete={() => handleDeleteRoute(route)}
+              />
             ))}
           </div>
         )}
@@ -501,26 +1553,142 @@ const App: React.FC = () => {
 
       {/* Map */}
       {/* Clicking & dragging functionality, marker and route dispplays */}
-      <div style={{ flexGrow: 1, position: "relative" }}>
+      <div
+        style={{ flexGrow: 1, position: "relative" }}
+        onKeyDown={handleMapKeyDown}
+        onDragOver={handleFileDragOver}
+        onDragLeave={handleFileDragLeave}
+        onDrop={handleFileDrop}
+      >
         <MapGL
           ref={mapRef}
-          initialViewState={{
-            longitude: 153.0251,
-            latitude: -27.4698,
-            zoom: 12,
+          initialViewState={mapView}
+          onLoad={updateMapBounds}
+          cursor={isPlacing ? "crosshair" : undefined}
+          onMoveEnd={(e) => {
+            setMapView({
+              longitude: e.viewState.longitude,
+              latitude: e.viewState.latitude,
+              zoom: e.viewState.zoom,
+            });
+            updateMapBounds();
           }}
           mapStyle="mapbox://styles/mapbox/streets-v11"
           onContextMenu={handleContextMenu}
           onClick={handleMapClick}
           style={{ width: "100%", height: "100%" }}
           mapboxAccessToken={mapboxgl.accessToken}
-          interactiveLayerIds={[`route-line-${currentRoute.id}`]}
+          interactiveLayerIds={[
+            `route-line-${currentRoute.id}`,
+            `route-alternatives-line-${currentRoute.id}`,
+            "saved-routes-line",
+          ]}
           onMouseMove={handleMouseMove}
           onMouseUp={handleMouseUp}
           onMouseDown={handleMouseDown}
           onMouseEnter={handleMouseEnter}
           onMouseLeave={handleMouseLeave}
+          onError={(e) => {
+            // Tiles and styles are refused with 401 for an invalid token
+            if ("status" in e.error && e.error.status === 401) {
+              setTokenError(new ServiceError("InvalidToken"));
+            }
+          }}
         >
+          {/* Saved routes, all from the same two sources. They come first so that the layers of the current route
+                and the highlighted step, which come and go, can be placed under and between them. */}
+          <Source
+            id={SAVED_ROUTES_SOURCE}
+            type="geojson"
+            data={savedRouteLines}
+          >
+            <Layer
+              id="saved-routes-line"
+              type="line"
+              filter={["!", ["get", "hidden"]]}
+              paint={{
+                "line-color": ["get", "color"],
+                "line-width": [
+                  "case",
+                  ["boolean", ["feature-state", "selected"], false],
+                  7,
+                  ["boolean", ["feature-state", "hover"], false],
+                  6,
+                  4,
+                ],
+              }}
+              layout={{
+                "line-cap": "round",
+                "line-join": "round",
+              }}
+            />
+          </Source>
+          {/* Origin, stop and destination markers of the saved routes, grouped into a count where they crowd together.
+                The layers that come and go later (areas, measurement, loops) are placed under them to keep them on top. */}
+          <Source
+            id={SAVED_ROUTE_ENDPOINTS_SOURCE}
+            type="geojson"
+            data={savedRouteEndpoints}
+            cluster
+            clusterMaxZoom={14}
+            clusterRadius={30}
+          >
+            <Layer
+              id="saved-route-clusters"
+              type="circle"
+              filter={["has", "point_count"]}
+              paint={{
+                "circle-color": "#555555",
+                "circle-radius": [
+                  "step",
+                  ["get", "point_count"],
+                  14,
+                  10,
+                  18,
+                  50,
+                  22,
+                ],
+                "circle-stroke-width": 2,
+                "circle-stroke-color": "white",
+              }}
+            />
+            <Layer
+              id="saved-route-cluster-count"
+              type="symbol"
+              filter={["has", "point_count"]}
+              layout={{
+                "text-field": ["get", "point_count_abbreviated"],
+                "text-font": ["DIN Offc Pro Bold", "Arial Unicode MS Bold"],
+                "text-size": 12,
+              }}
+              paint={{ "text-color": "white" }}
+            />
+            <Layer
+              id="saved-route-endpoints"
+              type="circle"
+              filter={["!", ["has", "point_count"]]}
+              paint={{
+                "circle-color": ["get", "color"],
+                "circle-radius": 13,
+                "circle-stroke-width": 2,
+                "circle-stroke-color": "white",
+              }}
+            />
+            <Layer
+              id="saved-route-endpoint-labels"
+              type="symbol"
+              filter={["!", ["has", "point_count"]]}
+              layout={{
+                "text-field": ["get", "label"],
+                "text-font": ["DIN Offc Pro Bold", "Arial Unicode MS Bold"],
+                "text-size": 11,
+                "text-allow-overlap": true,
+                "text-ignore-placement": true,
+              }}
+              paint={{ "text-color": "white" }}
+            />
+          </Source>
+
           {/* Current origin */}
           {currentRoute.origin && (
             <Marker
@@ -528,6 +1696,7 @@ const App: React.FC = () => {
               latitude={currentRoute.origin.coordinates[1]}
               draggable
               onDrag={(e) => handleCurrentMarkerDrag(e, "origin")}
+              onDragStart={() => recordEdit()}
               onDragEnd={(e) => handleCurrentMarkerDragEnd(e, "origin")}
             >
               <CustomMarker type={`S-${currentRoute.id}`} />
@@ -541,12 +1710,343 @@ const App: React.FC = () => {
               latitude={currentRoute.destination.coordinates[1]}
               draggable
               onDrag={(e) => handleCurrentMarkerDrag(e, "destination")}
+              onDragStart={() => recordEdit()}
               onDragEnd={(e) => handleCurrentMarkerDragEnd(e, "destination")}
             >
               <CustomMarker type={`E-${currentRoute.id}`} />
             </Marker>
           )}
 
+          {/* Current stops, numbered in visiting order */}
+          {currentRoute.stops.map((stop, index) => (
+            <Marker
+              key={`stop-${currentRoute.id}-${index}`}
+              longitude={stop.coordinates[0]}
+              latitude={stop.coordinates[1]}
+              draggable
+              onDrag={(e) => handleCurrentMarkerDrag(e, index)}
+              onDragStart={() => recordEdit()}
+              onDragEnd={(e) => handleCurrentMarkerDragEnd(e, index)}
+            >
+              <CustomMarker type={`${index + 1}`} />
+            </Marker>
+          ))}
+
+          {reachableCenter && (
+            <Marker
+              longitude={reachableCenter[0]}
+              latitude={reachableCenter[1]}
+            >
+              <div
+                title="Reachable area from here"
+                style={{
+                  backgroundColor: ISOCHRONE_COLORS[0],
+                  borderRadius: "50%",
+                  width: "12px",
+                  height: "12px",
+                  border: "2px solid white",
+                  boxShadow: "0 1px 3px rgba(0,0,0,0.4)",
+                }}
+              />
+            </Marker>
+          )}
+
+          {/* Areas to avoid, the disabled ones only outlined */}
+          {avoidAreas.length > 0 && (
+            <Source
+              id="avoid-areas"
+              type="geojson"
+              data={{
+                type: "FeatureCollection",
+                features: avoidAreas.map((area) => ({
+                  type: "Feature" as const,
+                  properties: { id: area.id, enabled: area.enabled },
+                  geometry: area.geometry,
+                })),
+              }}
+            >
+              <Layer
+                id="avoid-areas-fill"
+                beforeId="saved-route-clusters"
+                type="fill"
+                filter={["get", "enabled"]}
+                paint={{
+                  "fill-color": "#d62828",
+                  "fill-opacity": 0.15,
+                }}
+              />
+              <Layer
+                id="avoid-areas-outline"
+                beforeId="saved-route-clusters"
+                type="line"
+                paint={{
+                  "line-color": [
+                    "case",
+                    ["get", "enabled"],
+                    "#d62828",
+                    "#888888",
+                  ],
+                  "line-width": 2,
+                  "line-dasharray": [3, 2],
+                }}
+              />
+            </Source>
+          )}
+          <DrawControl
+            mode={
+              isDrawingAvoidArea || measureMode === "polygon"
+                ? "draw_polygon"
+                : measureMode === "line"
+                ? "draw_line_string"
+                : null
+            }
+            onCreate={
+              isDrawingAvoidArea
+                ? (geometry) => {
+                    if (geometry.type === "Polygon") {
+                      addAvoidArea(geometry);
+                    }
+                  }
+                : (geometry) => setMeasuredShape(toMeasureShape(geometry))
+            }
+            // Placing waypoints doesn't draw, so it's left on
+            onFinish={() =>
+              setMapMode((prev) => (prev === "place" ? prev : null))
+            }
+            onChange={
+              measureMode
+                ? (geometry) => setLiveMeasureShape(toMeasureShape(geometry))
+                : undefined
+            }
+          />
+
+          {/* The finished measurement, drawn by the app once the draw control lets go of it */}
+          {measuredShape && !measureMode && (
+            <Source
+              id="measurement"
+              type="geojson"
+              data={{
+                type: "Feature",
+                properties: {},
+                geometry: measuredShape,
+              }}
+            >
+              <Layer
+                id="measurement-fill"
+                beforeId="saved-route-clusters"
+                type="fill"
+                filter={["==", ["geometry-type"], "Polygon"]}
+                paint={{
+                  "fill-color": "#333333",
+                  "fill-opacity": 0.1,
+                }}
+              />
+              <Layer
+                id="measurement-line"
+                beforeId="saved-route-clusters"
+                type="line"
+                paint={{
+                  "line-color": "#333333",
+                  "line-width": 2,
+                  "line-dasharray": [2, 2],
+                }}
+              />
+            </Source>
+          )}
+          {/* Length of each segment, next to it */}
+          {measurement && (
+            <Source
+              id="measurement-labels"
+              type="geojson"
+              data={{
+                type: "FeatureCollection",
+                features: measurement.segments.map((segment, index) => {
+                  const from = measurement.points[index];
+                  const to =
+                    measurement.points[(index + 1) % measurement.points.length];
+                  return {
+                    type: "Feature" as const,
+                    properties: {
+                      label: formatDistance(segment, preferences.units),
+                    },
+                    geometry: {
+                      type: "Point" as const,
+                      coordinates: [
+                        (from[0] + to[0]) / 2,
+                        (from[1] + to[1]) / 2,
+                      ],
+                    },
+                  };
+                }),
+              }}
+            >
+              <Layer
+                id="measurement-labels"
+                beforeId="saved-route-clusters"
+                type="symbol"
+                layout={{
+                  "text-field": ["get", "label"],
+                  "text-size": 12,
+                  "text-offset": [0, -1],
+                  "text-allow-overlap": true,
+                }}
+                paint={{
+                  "text-color": "#333333",
+                  "text-halo-color": "white",
+                  "text-halo-width": 2,
+                }}
+              />
+            </Source>
+          )}
+
+          {/* Alternate routes, dimmed and drawn under the current route line */}
+          {currentRoute.geometry && (
+            <Source
+              id={`route-alternatives-${currentRoute.id}`}
+              type="geojson"
+              data={{
+                type: "FeatureCollection",
+                features: currentRoute.alternatives
+                  .map((alternative, index) => ({
+                    type: "Feature" as const,
+                    properties: { index },
+                    geometry: alternative.geometry,
+                  }))
+                  .filter(
+                    (feature) =>
+                      feature.properties.index !==
+                      currentRoute.selectedAlternative
+                  ),
+              }}
+            >
+              <Layer
+                id={`route-alternatives-line-${currentRoute.id}`}
+                beforeId="saved-routes-line"
+                type="line"
+                paint={{
+                  "line-color": "#3887be",
+                  "line-opacity": 0.4,
+                  "line-width": 5,
+                }}
+                layout={{
+                  "line-cap": "round",
+                  "line-join": "round",
+                }}
+              />
+            </Source>
+          )}
+
+          {/* Reachable area, under all routes. The areas come largest first, so the smallest is drawn on top.
+              It goes under the alternates of the current route, the lowest route layer, so it comes after them. */}
+          {reachableCenter && (
+            <Source
+              id="reachable-area"
+              type="geojson"
+              data={{
+                type: "FeatureCollection",
+                features: isochrones
+                  .map((isochrone, index) => ({
+                    type: "Feature" as const,
+                    properties: {
+                      band: isochrone.band,
+                      color:
+                        ISOCHRONE_COLORS[isochrones.length - 1 - index] ||
+                        ISOCHRONE_COLORS[ISOCHRONE_COLORS.length - 1],
+                    },
+                    geometry: isochrone.geometry,
+                  }))
+                  .filter(
+                    (feature) => !hiddenBands.includes(feature.properties.band)
+                  ),
+              }}
+            >
+              <Layer
+                id="reachable-area-fill"
+                beforeId={lowestRouteLayerId}
+                type="fill"
+                paint={{
+                  "fill-color": ["get", "color"],
+                  "fill-opacity": 0.25,
+                }}
+              />
+              <Layer
+                id="reachable-area-outline"
+                beforeId={lowestRouteLayerId}
+                type="line"
+                paint={{
+                  "line-color": ["get", "color"],
+                  "line-width": 2,
+                }}
+              />
+            </Source>
+          )}
+          {/* Candidate loops, dashed, with the previewed one on top */}
+          {loopCandidates.length > 0 && (
+            <Source
+              id="loop-candidates"
+              type="geojson"
+              data={{
+                type: "FeatureCollection",
+                features: loopCandidates
+                  .map((candidate, index) => ({
+                    type: "Feature" as const,
+                    properties: { isPreview: index === loopPreview },
+                    geometry: candidate.alternative.geometry,
+                  }))
+                  .sort(
+                    (a, b) =>
+                      Number(a.properties.isPreview) -
+                      Number(b.properties.isPreview)
+                  ),
+              }}
+            >
+              <Layer
+                id="loop-candidates-line"
+                beforeId="saved-route-clusters"
+                type="line"
+                paint={{
+                  "line-color": [
+                    "case",
+                    ["get", "isPreview"],
+                    "#7b2cbf",
+                    "#9d8fb0",
+                  ],
+                  "line-width": ["case", ["get", "isPreview"], 5, 3],
+                  "line-dasharray": [2, 1],
+                }}
+                layout={{
+                  "line-cap": "round",
+                  "line-join": "round",
+                }}
+              />
+            </Source>
+          )}
+
+          {/* Via point handles of the current route */}
+          {currentRoute.viaPoints.map((viaPoint, index) => (
+            <Marker
+              key={`via-${currentRoute.id}-${index}`}
+              longitude={viaPoint.coordinates[0]}
+              latitude={viaPoint.coordinates[1]}
+              draggable
+              onDragStart={() => recordEdit()}
+              onDragEnd={(e) => handleViaPointDragEnd(e, index)}
+            >
+              <div
+                title="Drag to move, double-click to remove"
+                onDoubleClick={(e) => handleViaPointDoubleClick(e, index)}
+                style={{
+                  backgroundColor: "white",
+                  borderRadius: "50%",
+                  width: "10px",
+                  height: "10px",
+                  border: "3px solid #3887be",
+                  cursor: "move",
+                }}
+              />
+            </Marker>
+          ))}
+
           {/* Current Route Line */}
           {currentRoute.geometry && (
             <Source
@@ -559,10 +2059,13 @@ const App: React.FC = () => {
             >
               <Layer
                 id={`route-line-${currentRoute.id}`}
+                beforeId="saved-routes-line"
                 type="line"
                 paint={{
                   "line-color": "#3887be",
                   "line-width": 6,
+                  // Faded while the route is being fetched again
+                  "line-opacity": isRouteLoading ? 0.5 : 1,
                 }}
                 layout={{
                   "line-cap": "round",
@@ -572,80 +2075,247 @@ const App: React.FC = () => {
             </Source>
           )}
 
-          {/* Saved Routes */}
-          {routes.map((route) => (
-            <React.Fragment key={`route-${route.id}`}>
-              {/* Route Line */}
-              <Source
-                id={`route-${route.id}`}
-                type="geojson"
-                data={{
-                  type: "Feature",
-                  geometry: route.geometry,
+          {/* Highlighted instruction step, on top of all routes but under the markers of the saved routes */}
+          {highlightedStep && (
+            <Source
+              id="highlighted-step"
+              type="geojson"
+              data={{
+                type: "Feature",
+                properties: {},
+                geometry: highlightedStep.geometry,
+              }}
+            >
+              <Layer
+                id="highlighted-step-line"
+                beforeId="saved-route-clusters"
+                type="line"
+                paint={{
+                  "line-color": "#ff8c00",
+                  "line-width": 8,
                 }}
-              >
-                <Layer
-                  id={`route-line-${route.id}`}
-                  type="line"
-                  paint={{
-                    "line-color": "#888",
-                    "line-width": 4,
-                  }}
-                  layout={{
-                    "line-cap": "round",
-                    "line-join": "round",
-                  }}
-                />
-              </Source>
-
-              {/* Origin Marker */}
-              <Marker
-                longitude={route.origin.coordinates[0]}
-                latitude={route.origin.coordinates[1]}
-              >
-                <CustomMarker type={`S-${route.id}`} />
-              </Marker>
+                layout={{
+                  "line-cap": "round",
+                  "line-join": "round",
+                }}
+              />
+            </Source>
+          )}
 
-              {/* Destination Marker */}
-              <Marker
-                longitude={route.destination.coordinates[0]}
-                latitude={route.destination.coordinates[1]}
-              >
-                <CustomMarker type={`E-${route.id}`} />
-              </Marker>
-            </React.Fragment>
-          ))}
+          {popupRoute && routePopup && (
+            <SavedRoutePopup
+              route={popupRoute}
+              longitude={routePopup.longitude}
+              latitude={routePopup.latitude}
+              preferences={preferences}
+              onEdit={() => handleEditRoute(popupRoute)}
+              onZoom={() => fitToRoute(popupRoute)}
+              onHide={() => {
+                recordEdit();
+                updateSavedRoute(popupRoute.id, { hidden: true });
+                setRoutePopup(null);
+              }}
+              onDelete={() => handleDeleteRoute(popupRoute)}
+              onClose={() => setRoutePopup(null)}
+            />
+          )}
         </MapGL>
 
-        {/* Context menu */}
-        {contextMenu.visible && (
+        {/* Loading and error states of the network requests, over the top of the map */}
+        <div
+          style={{
+            position: "absolute",
+            top: "10px",
+            left: "50%",
+            transform: "translateX(-50%)",
+            width: "min(480px, 90%)",
+            zIndex: 1000,
+          }}
+        >
+          {tokenError && <ErrorBanner message={getErrorMessage(tokenError)} />}
+          {routeError && routeError.error !== tokenError && (
+            <ErrorBanner
+              message={getErrorMessage(routeError.error)}
+              onRetry={() => {
+                setRouteError(null);
+                routeError.retry();
+              }}
+              onDismiss={() => setRouteError(null)}
+            />
+          )}
+          {addressError && (
+            <ErrorBanner
+              message={addressError}
+              onDismiss={() => setAddressError(null)}
+            />
+          )}
+          {isPlacing && (
+            <div
+              role="status"
+              style={{
+                display: "flex",
+                alignItems: "center",
+                gap: "8px",
+                padding: "8px 12px",
+                marginBottom: "6px",
+                backgroundColor: "#3887be",
+                color: "white",
+                borderRadius: "4px",
+                boxShadow: "0 2px 6px rgba(0,0,0,0.3)",
+              }}
+            >
+              <span style={{ flexGrow: 1 }}>
+                {nextPlacementSlot === null
+                  ? "The route can't take more stops."
+                  : `Click the map to ${
+                      nextPlacementSlot === "origin"
+                        ? "set the origin"
+                        : nextPlacementSlot === "destination"
+                        ? "set the destination"
+                        : "add a stop"
+                    }. Press Esc to finish.`}
+              </span>
+              <button onClick={() => setMapMode(null)}>Done</button>
+            </div>
+          )}
+          {isDrawingAvoidArea && (
+            <div
+              role="status"
+              style={{
+                display: "flex",
+                alignItems: "center",
+                gap: "8px",
+                padding: "8px 12px",
+                marginBottom: "6px",
+                backgroundColor: "#d62828",
+                color: "white",
+                borderRadius: "4px",
+                boxShadow: "0 2px 6px rgba(0,0,0,0.3)",
+              }}
+            >
+              <span style={{ flexGrow: 1 }}>
+                Click the corners of the area to avoid, and the first corner
+                again to finish. Press Esc to cancel.
+              </span>
+              <button onClick={() => setMapMode(null)}>Cancel</button>
+            </div>
+          )}
+          {/* A route through an area to avoid is flagged: the backend found no way around it, or can't look for one */}
+          {crossedAvoidAreas.length > 0 && !isRouteLoading && (
+            <div
+              role="status"
+              style={{
+                padding: "8px 12px",
+                marginBottom: "6px",
+                backgroundColor: "#fff4e5",
+                border: "1px solid #b35900",
+                borderRadius: "4px",
+                color: "#b35900",
+                boxShadow: "0 2px 6px rgba(0,0,0,0.3)",
+              }}
+            >
+              The route crosses an avoided area:{" "}
+              {crossedAvoidAreas.map((area) => area.name).join(", ")}.{" "}
+              {routingService.canAvoidPoints(currentRoute.profile)
+                ? "The routing service found no way around it."
+                : "The routing service can't route around areas for this profile."}
+              {!canFindAlternatives &&
+                " Without stops or dragged points, an alternative around it could be looked for."}
+            </div>
+          )}
+          {isRouteLoading && (
+            <div
+              role="status"
+              style={{
+                width: "fit-content",
+                margin: "0 auto",
+                padding: "4px 12px",
+                backgroundColor: "white",
+                borderRadius: "12px",
+                boxShadow: "0 2px 6px rgba(0,0,0,0.3)",
+              }}
+            >
+              Finding route...
+            </div>
+          )}
+        </div>
+
+        <MeasurePanel
+          mode={measureMode}
+          onModeChange={handleMeasureModeChange}
+          measurement={measurement}
+          units={preferences.units}
+          isCopied={isMeasurementCopied}
+          canMakeRoute={canMakeMeasurementRoute}
+          onCopy={copyMeasurement}
+          onMakeRoute={handleMeasurementToRoute}
+          onClear={clearMeasurement}
+        />
+
+        {reachableCenter && (
+          <ReachableAreaPanel
+            settings={preferences.isochrones}
+            onSettingsChange={(isochrones) =>
+              setPreferences((prev) => ({ ...prev, isochrones }))
+            }
+            hiddenBands={hiddenBands}
+            onToggleBand={toggleBand}
+            isLoading={isIsochroneLoading}
+            error={isochroneError}
+            onClear={clearReachableArea}
+          />
+        )}
+
+        {/* Drop target hint while route files are dragged over the map */}
+        {isFileOver && (
           <div
             style={{
               position: "absolute",
-              top: contextMenu.y,
-              left: contextMenu.x,
-              backgroundColor: "white",
-              border: "1px solid #ccc",
+              inset: 0,
+              display: "flex",
+              alignItems: "center",
+              justifyContent: "center",
+              backgroundColor: "rgba(56, 135, 190, 0.3)",
+              border: "3px dashed #3887be",
+              fontWeight: "bold",
+              pointerEvents: "none",
               zIndex: 1000,
-              boxShadow: "0 2px 6px rgba(0,0,0,0.3)",
             }}
           >
-            <ul style={{ listStyleType: "none", margin: 0, padding: 0 }}>
-              <li
-                style={{ padding: "8px", cursor: "pointer" }}
-                onClick={() => handleMenuItemClick("origin")}
-              >
-                Set As Origin
-              </li>
-              <li
-                style={{ padding: "8px", cursor: "pointer" }}
-                onClick={() => handleMenuItemClick("destination")}
-              >
-                Set As Destination
-              </li>
-            </ul>
+            Drop GPX, GeoJSON or KML files to import
           </div>
         )}
+
+        {/* Context menu */}
+        {contextMenu.visible && (
+          <MapContextMenu
+            x={contextMenu.x}
+            y={contextMenu.y}
+            items={[
+              {
+                label: "Set As Origin",
+                onSelect: () => handleMenuItemClick("origin"),
+              },
+              {
+                label: "Set As Destination",
+                onSelect: () => handleMenuItemClick("destination"),
+              },
+              {
+                label: "Show Reachable Area",
+                onSelect: handleShowReachableArea,
+              },
+              ...(canAddStop(currentRoute)
+                ? [
+                    {
+                      label: "Add As Stop",
+                      onSelect: () => handleMenuItemClick("stop"),
+                    },
+                  ]
+                : []),
+            ]}
+            onClose={closeContextMenu}
+          />
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,112 @@
+import React from "react";
+import { AvoidArea } from "./avoidAreas";
+import { RoadClass, ROAD_CLASSES } from "./routing";
+
+interface AvoidAreasPanelProps {
+  areas: AvoidArea[];
+  // Areas the current route goes through anyway
+  crossedAreaIds: number[];
+  isDrawing: boolean;
+  onDrawingChange: (isDrawing: boolean) => void;
+  onAreaChange: (id: number, changes: Partial<AvoidArea>) => void;
+  onAreaDelete: (id: number) => void;
+  onAreaZoom: (area: AvoidArea) => void;
+  avoidRoads: RoadClass[];
+  // The road classes the routing backend can leave out for the current profile
+  excludableRoads: RoadClass[];
+  onAvoidRoadsChange: (avoidRoads: RoadClass[]) => void;
+}
+
+// Areas drawn on the map for routes to stay out of, and the kinds of roads to leave out
+const AvoidAreasPanel: React.FC<AvoidAreasPanelProps> = ({
+  areas,
+  crossedAreaIds,
+  isDrawing,
+  onDrawingChange,
+  onAreaChange,
+  onAreaDelete,
+  onAreaZoom,
+  avoidRoads,
+  excludableRoads,
+  onAvoidRoadsChange,
+}) => {
+  const toggleRoad = (roadClass: RoadClass) =>
+    onAvoidRoadsChange(
+      avoidRoads.includes(roadClass)
+        ? avoidRoads.filter((road) => road !== roadClass)
+        : [...avoidRoads, roadClass]
+    );
+
+  return (
+    <details style={{ marginBottom: "10px" }}>
+      <summary>
+        Avoid ({areas.filter((area) => area.enabled).length} areas)
+      </summary>
+      <fieldset style={{ marginTop: "6px" }}>
+        <legend>Roads to avoid</legend>
+        {ROAD_CLASSES.map(({ value, label }) => {
+          const isSupported = excludableRoads.includes(value);
+          return (
+            <label
+              key={value}
+              title={
+                isSupported ? undefined : "Not available for this travel mode"
+              }
+              style={{ marginRight: "8px", opacity: isSupported ? 1 : 0.5 }}
+            >
+              <input
+                type="checkbox"
+                checked={avoidRoads.includes(value)}
+                disabled={!isSupported}
+                onChange={() => toggleRoad(value)}
+              />
+              {label}
+            </label>
+          );
+        })}
+      </fieldset>
+      <div style={{ marginTop: "6px" }}>
+        <button onClick={() => onDrawingChange(!isDrawing)}>
+          {isDrawing ? "Cancel drawing" : "Draw area to avoid"}
+        </button>
+      </div>
+      {areas.length > 0 && (
+        <ul
+          aria-label="Areas to avoid"
+          style={{ listStyleType: "none", margin: "6px 0", padding: 0 }}
+        >
+          {areas.map((area) => (
+            <li key={area.id} style={{ marginBottom: "4px" }}>
+              <input
+                type="checkbox"
+                aria-label={`Avoid ${area.name}`}
+                checked={area.enabled}
+                onChange={(e) =>
+                  onAreaChange(area.id, { enabled: e.target.checked })
+                }
+              />
+              <input
+                type="text"
+                aria-label="Area name"
+                value={area.name}
+                onChange={(e) =>
+                  onAreaChange(area.id, { name: e.target.value })
+                }
+                style={{ width: "110px" }}
+              />{" "}
+              <button onClick={() => onAreaZoom(area)}>Zoom</button>{" "}
+              <button onClick={() => onAreaDelete(area.id)}>Delete</button>
+              {crossedAreaIds.includes(area.id) && (
+                <div style={{ color: "#b35900", fontSize: "small" }}>
+                  The route goes through this area
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </details>
+  );
+};
+
+export default AvoidAreasPanel;
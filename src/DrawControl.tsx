@@ -0,0 +1,89 @@
+import MapboxDraw from "@mapbox/mapbox-gl-draw";
+import "@mapbox/mapbox-gl-draw/dist/mapbox-gl-draw.css";
+import { Geometry } from "geojson";
+import React, { useEffect, useRef } from "react";
+import { IControl, useControl } from "react-map-gl";
+
+export type DrawMode = "draw_polygon" | "draw_line_string";
+
+interface DrawControlProps {
+  // Null while nothing is being drawn
+  mode: DrawMode | null;
+  // The finished shape, as a GeoJSON geometry
+  onCreate: (geometry: Geometry) => void;
+  // Drawing ended, either finished or cancelled (e.g. with Esc)
+  onFinish: () => void;
+  // The shape while it's drawn, up to the pointer. Null when there is none.
+  onChange?: (geometry: Geometry | null) => void;
+}
+
+// Drawing on the map with mapbox-gl-draw. Shapes are handed over once finished and removed from the control,
+//    the app draws them itself. The control has no buttons, drawing is started through the mode.
+const DrawControl: React.FC<DrawControlProps> = ({
+  mode,
+  onCreate,
+  onFinish,
+  onChange,
+}) => {
+  // The map events are subscribed once, so they go through a ref to reach the latest callbacks
+  const callbacks = useRef({ onCreate, onFinish, onChange });
+  callbacks.current = { onCreate, onFinish, onChange };
+  // The map renders on every move of the pointer, the shape is only passed on when it changed
+  const lastShape = useRef("null");
+
+  const handlers = useRef({
+    create: (e: MapboxDraw.DrawCreateEvent) =>
+      callbacks.current.onCreate(e.features[0].geometry),
+    modeChange: (e: MapboxDraw.DrawModeChangeEvent) => {
+      if (e.mode === "simple_select") callbacks.current.onFinish();
+    },
+    render: () => {
+      const geometry = draw.getAll().features[0]?.geometry ?? null;
+      const shape = JSON.stringify(geometry);
+      if (shape === lastShape.current) return;
+      lastShape.current = shape;
+      callbacks.current.onChange?.(geometry);
+    },
+  }).current;
+
+  // The control is typed against mapbox-gl's own map, react-map-gl only knows the map as an instance of its own
+  const draw = useControl<MapboxDraw & IControl>(
+    () =>
+      new MapboxDraw({ displayControlsDefault: false }) as MapboxDraw &
+        IControl,
+    ({ map }) => {
+      map.on("draw.create", handlers.create);
+      map.on("draw.modechange", handlers.modeChange);
+      map.on("draw.render", handlers.render);
+    },
+    ({ map }) => {
+      map.off("draw.create", handlers.create);
+      map.off("draw.modechange", handlers.modeChange);
+      map.off("draw.render", handlers.render);
+    }
+  );
+
+  // Nothing is drawn until the mode first changes, by then the map has loaded
+  const previousMode = useRef(mode);
+  useEffect(() => {
+    if (previousMode.current === mode) return;
+    previousMode.current = mode;
+
+    try {
+      draw.deleteAll();
+      if (mode) {
+        // The overloads of changeMode take the mode as a literal
+        if (mode === "draw_polygon") draw.changeMode("draw_polygon");
+        else draw.changeMode("draw_line_string");
+      } else if (draw.getMode() !== "simple_select") {
+        draw.changeMode("simple_select");
+      }
+    } catch (error) {
+      console.error("Error changing the draw mode:", error);
+    }
+  }, [draw, mode]);
+
+  return null;
+};
+
+export default DrawControl;
@@ -0,0 +1,42 @@
+import React from "react";
+
+interface ErrorBannerProps {
+  message: string;
+  onRetry?: () => void;
+  onDismiss?: () => void;
+}
+
+// An error shown over the top of the map, optionally with retry and dismiss actions
+const ErrorBanner: React.FC<ErrorBannerProps> = ({
+  message,
+  onRetry,
+  onDismiss,
+}) => {
+  return (
+    <div
+      role="alert"
+      style={{
+        display: "flex",
+        alignItems: "center",
+        gap: "8px",
+        padding: "8px 12px",
+        marginBottom: "6px",
+        backgroundColor: "#fdecea",
+        border: "1px solid maroon",
+        borderRadius: "4px",
+        color: "maroon",
+        boxShadow: "0 2px 6px rgba(0,0,0,0.3)",
+      }}
+    >
+      <span style={{ flexGrow: 1 }}>{message}</span>
+      {onRetry && <button onClick={onRetry}>Retry</button>}
+      {onDismiss && (
+        <button title="Dismiss" onClick={onDismiss}>
+          ✕
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default ErrorBanner;
@@ -0,0 +1,29 @@
+import React from "react";
+import { EXPORT_FORMATS, ExportFormat } from "./routeExport";
+
+interface ExportMenuProps {
+  label: string;
+  onExport: (format: ExportFormat) => void;
+}
+
+// Drop-down of the export formats. It always shows the label, picking a format starts the export.
+const ExportMenu: React.FC<ExportMenuProps> = ({ label, onExport }) => {
+  return (
+    <select
+      value=""
+      aria-label={label}
+      onChange={(e) => onExport(e.target.value as ExportFormat)}
+    >
+      <option value="" disabled>
+        {label}
+      </option>
+      {EXPORT_FORMATS.map(({ value, label }) => (
+        <option key={value} value={value}>
+          {label}
+        </option>
+      ))}
+    </select>
+  );
+};
+
+export default ExportMenu;
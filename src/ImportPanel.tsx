@@ -0,0 +1,66 @@
+import React, { useRef } from "react";
+import { IMPORT_FILE_TYPES } from "./routeImport";
+
+export interface ImportError {
+  fileName: string;
+  message: string;
+}
+
+interface ImportPanelProps {
+  isImporting: boolean;
+  mapMatch: boolean;
+  onMapMatchChange: (mapMatch: boolean) => void;
+  onImport: (files: File[]) => void;
+  errors: ImportError[];
+}
+
+// File picker for importing GPX, GeoJSON and KML routes. Files can also be dropped onto the map.
+const ImportPanel: React.FC<ImportPanelProps> = ({
+  isImporting,
+  mapMatch,
+  onMapMatchChange,
+  onImport,
+  errors,
+}) => {
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+
+  return (
+    <div style={{ marginBottom: "20px" }}>
+      <h3>Import Routes</h3>
+      <input
+        ref={fileInputRef}
+        type="file"
+        multiple
+        accept={IMPORT_FILE_TYPES}
+        disabled={isImporting}
+        onChange={(e) => {
+          onImport(Array.from(e.target.files || []));
+          // Cleared so the same file can be picked again
+          if (fileInputRef.current) fileInputRef.current.value = "";
+        }}
+      />
+      <div>
+        <label>
+          <input
+            type="checkbox"
+            checked={mapMatch}
+            onChange={(e) => onMapMatchChange(e.target.checked)}
+          />
+          Snap to roads with the current profile
+        </label>
+      </div>
+      {isImporting && <p>Importing...</p>}
+      {errors.length > 0 && (
+        <ul style={{ color: "maroon", paddingLeft: "20px" }}>
+          {errors.map(({ fileName, message }, index) => (
+            <li key={index}>
+              {fileName}: {message}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ImportPanel;
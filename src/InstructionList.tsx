@@ -0,0 +1,53 @@
+import React from "react";
+import { formatDistance } from "./format";
+import { RouteStep } from "./interfaces";
+import { Units } from "./preferences";
+
+interface InstructionListProps {
+  steps: RouteStep[];
+  units: Units;
+  highlightedStep: RouteStep | null;
+  // Hovering a step highlights its part of the route, null when the pointer leaves
+  onHover: (step: RouteStep | null) => void;
+  // Clicking a step also moves the map to it
+  onSelect: (step: RouteStep) => void;
+}
+
+// Turn-by-turn instructions of a route, linked to the map
+const InstructionList: React.FC<InstructionListProps> = ({
+  steps,
+  units,
+  highlightedStep,
+  onHover,
+  onSelect,
+}) => {
+  return (
+    <ol
+      style={{ margin: 0, paddingLeft: "20px", fontSize: "0.9em" }}
+      onMouseLeave={() => onHover(null)}
+    >
+      {steps.map((step, index) => (
+        <li
+          key={index}
+          onMouseEnter={() => onHover(step)}
+          onClick={() => onSelect(step)}
+          style={{
+            padding: "4px",
+            cursor: "pointer",
+            backgroundColor: step === highlightedStep ? "#ffe8cc" : undefined,
+          }}
+        >
+          {step.instruction}
+          {step.distance > 0 && (
+            <span style={{ color: "#666" }}>
+              {" "}
+              ({formatDistance(step.distance, units)})
+            </span>
+          )}
+        </li>
+      ))}
+    </ol>
+  );
+};
+
+export default InstructionList;
@@ -0,0 +1,121 @@
+import React, { useState } from "react";
+import { formatDistance, formatDuration } from "./format";
+import { RoutingProfile } from "./interfaces";
+import { LOOP_DIRECTIONS, LoopCandidate, LoopDirection } from "./loops";
+import { METRES_PER_MILE, Units } from "./preferences";
+import { getAlternativeDuration } from "./routes";
+
+interface LoopPanelProps {
+  isGenerating: boolean;
+  candidates: LoopCandidate[];
+  // The candidate shown on the map
+  previewIndex: number;
+  error: string | null;
+  units: Units;
+  profile: RoutingProfile;
+  walkingPace: number;
+  // The target distance is in metres
+  onGenerate: (distance: number, direction: LoopDirection) => void;
+  onPreview: (index: number) => void;
+  onAdopt: (candidate: LoopCandidate) => void;
+  onDismiss: () => void;
+}
+
+// "Generate loop" from the origin: a target distance (in the user's units) and a preferred direction, and the candidates to choose from
+const LoopPanel: React.FC<LoopPanelProps> = ({
+  isGenerating,
+  candidates,
+  previewIndex,
+  error,
+  units,
+  profile,
+  walkingPace,
+  onGenerate,
+  onPreview,
+  onAdopt,
+  onDismiss,
+}) => {
+  const [distance, setDistance] = useState(5);
+  const [direction, setDirection] = useState<LoopDirection>("any");
+  const unitLabel = units === "imperial" ? "mi" : "km";
+  const isValidDistance = Number.isFinite(distance) && distance > 0;
+
+  return (
+    <div style={{ marginBottom: "10px" }}>
+      <label>
+        Loop of{" "}
+        <input
+          type="number"
+          min={0.5}
+          step={0.5}
+          value={Number.isFinite(distance) ? distance : ""}
+          onChange={(e) => setDistance(e.target.valueAsNumber)}
+          style={{ width: "60px" }}
+        />{" "}
+        {unitLabel}
+      </label>{" "}
+      <select
+        aria-label="Direction of the loop"
+        value={direction}
+        onChange={(e) => setDirection(e.target.value as LoopDirection)}
+      >
+        {LOOP_DIRECTIONS.map(({ value, label }) => (
+          <option key={value} value={value}>
+            {label}
+          </option>
+        ))}
+      </select>{" "}
+      <button
+        onClick={() =>
+          onGenerate(
+            distance * (units === "imperial" ? METRES_PER_MILE : 1000),
+            direction
+          )
+        }
+        disabled={isGenerating || !isValidDistance}
+      >
+        {isGenerating ? "Generating..." : "Generate loop"}
+      </button>
+      {error && (
+        <p role="alert" style={{ color: "maroon" }}>
+          {error}
+        </p>
+      )}
+      {candidates.length > 0 && (
+        <div>
+          <ul
+            aria-label="Candidate loops"
+            style={{ listStyleType: "none", margin: "6px 0", padding: 0 }}
+          >
+            {candidates.map((candidate, index) => (
+              <li key={index}>
+                <label>
+                  <input
+                    type="radio"
+                    name="loop-candidate"
+                    checked={index === previewIndex}
+                    onChange={() => onPreview(index)}
+                  />
+                  {formatDistance(candidate.alternative.distance, units)},{" "}
+                  {formatDuration(
+                    getAlternativeDuration(
+                      candidate.alternative,
+                      profile,
+                      walkingPace
+                    )
+                  )}
+                  {candidate.overlap >= 0.01 &&
+                    `, ${Math.round(candidate.overlap * 100)}% retraced`}
+                </label>{" "}
+                <button onClick={() => onAdopt(candidate)}>Use</button>
+              </li>
+            ))}
+          </ul>
+          <button onClick={onDismiss}>Dismiss</button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LoopPanel;
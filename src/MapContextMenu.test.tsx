@@ -0,0 +1,74 @@
+import React from 'react';
+import { fireEvent, render, screen } from '@testing-library/react';
+import MapContextMenu from './MapContextMenu';
+
+const renderMenu = () => {
+  const onSelect = jest.fn();
+  const onClose = jest.fn();
+  render(
+    <MapContextMenu
+      x={10}
+      y={20}
+      items={['Set As Origin', 'Set As Destination', 'Add As Stop'].map(
+        (label) => ({ label, onSelect: () => onSelect(label) })
+      )}
+      onClose={onClose}
+    />
+  );
+  return { onSelect, onClose };
+};
+
+// Keys pressed on any of the items reach the menu
+const press = (...keys: string[]) =>
+  keys.forEach((key) => fireEvent.keyDown(screen.getByRole('menu'), { key }));
+
+const item = (name: string) => screen.getByRole('menuitem', { name });
+
+test('focuses the first item when it opens, with only the focused item tabbable', () => {
+  renderMenu();
+
+  expect(screen.getByRole('menu', { name: 'Map actions' })).toBeInTheDocument();
+  expect(item('Set As Origin')).toHaveFocus();
+  expect(item('Set As Origin')).toHaveAttribute('tabindex', '0');
+  expect(item('Add As Stop')).toHaveAttribute('tabindex', '-1');
+});
+
+test('the arrow keys wrap around, Home and End go to the first and last items', () => {
+  renderMenu();
+
+  press('ArrowUp');
+  expect(item('Add As Stop')).toHaveFocus();
+  press('ArrowDown');
+  expect(item('Set As Origin')).toHaveFocus();
+
+  press('End');
+  expect(item('Add As Stop')).toHaveFocus();
+  expect(item('Add As Stop')).toHaveAttribute('tabindex', '0');
+  press('Home');
+  expect(item('Set As Origin')).toHaveFocus();
+});
+
+test('Enter and Space pick the focused item', () => {
+  const { onSelect, onClose } = renderMenu();
+
+  press('ArrowDown', 'Enter');
+  expect(onSelect).toHaveBeenLastCalledWith('Set As Destination');
+
+  press('End', ' ');
+  expect(onSelect).toHaveBeenLastCalledWith('Add As Stop');
+  // Closing is left to the item, which also moves the focus back to the map
+  expect(onClose).not.toHaveBeenCalled();
+});
+
+test('Escape and Tab close it without picking anything', () => {
+  const { onSelect, onClose } = renderMenu();
+
+  press('Escape');
+  expect(onClose).toHaveBeenCalledTimes(1);
+
+  press('Tab');
+  expect(onClose).toHaveBeenCalledTimes(2);
+  // The focus isn't moved on from the menu, it's sent back to the map by the app
+  expect(item('Set As Origin')).toHaveFocus();
+  expect(onSelect).not.toHaveBeenCalled();
+});
@@ -0,0 +1,104 @@
+import React, { useEffect, useRef, useState } from "react";
+
+export interface MapContextMenuItem {
+  label: string;
+  onSelect: () => void;
+}
+
+interface MapContextMenuProps {
+  x: number;
+  y: number;
+  items: MapContextMenuItem[];
+  onClose: () => void;
+}
+
+// The right-click menu of the map, a WAI-ARIA menu: the first item is focused when it opens,
+// arrow keys (and Home/End) move between the items, Enter or Space picks one and Escape or Tab closes it
+const MapContextMenu: React.FC<MapContextMenuProps> = ({
+  x,
+  y,
+  items,
+  onClose,
+}) => {
+  const [focusedIndex, setFocusedIndex] = useState(0);
+  const itemRefs = useRef<(HTMLLIElement | null)[]>([]);
+
+  useEffect(() => {
+    itemRefs.current[focusedIndex]?.focus();
+  }, [focusedIndex]);
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    const count = items.length;
+
+    switch (e.key) {
+      case "ArrowDown":
+        e.preventDefault();
+        setFocusedIndex((prev) => (prev + 1) % count);
+        break;
+      case "ArrowUp":
+        e.preventDefault();
+        setFocusedIndex((prev) => (prev - 1 + count) % count);
+        break;
+      case "Home":
+        e.preventDefault();
+        setFocusedIndex(0);
+        break;
+      case "End":
+        e.preventDefault();
+        setFocusedIndex(count - 1);
+        break;
+      case "Enter":
+      case " ":
+        e.preventDefault();
+        items[focusedIndex]?.onSelect();
+        break;
+      case "Escape":
+      case "Tab":
+        e.preventDefault();
+        onClose();
+        break;
+    }
+  };
+
+  return (
+    <div
+      style={{
+        position: "absolute",
+        top: y,
+        left: x,
+        backgroundColor: "white",
+        border: "1px solid #ccc",
+        zIndex: 1000,
+        boxShadow: "0 2px 6px rgba(0,0,0,0.3)",
+      }}
+    >
+      <ul
+        role="menu"
+        aria-label="Map actions"
+        onKeyDown={handleKeyDown}
+        style={{ listStyleType: "none", margin: 0, padding: 0 }}
+      >
+        {items.map((item, index) => (
+          <li
+            key={item.label}
+            ref={(element) => (itemRefs.current[index] = element)}
+            role="menuitem"
+            tabIndex={index === focusedIndex ? 0 : -1}
+            onClick={item.onSelect}
+            onMouseEnter={() => setFocusedIndex(index)}
+            style={{
+              padding: "8px",
+              cursor: "pointer",
+              backgroundColor: index === focusedIndex ? "#e0ecf5" : "white",
+              outline: "none",
+            }}
+          >
+            {item.label}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default MapContextMenu;
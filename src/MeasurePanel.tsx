@@ -0,0 +1,126 @@
+import React from "react";
+import { formatArea, formatDistance } from "./format";
+import { describeSegment, Measurement, MeasureMode } from "./measure";
+import { Units } from "./preferences";
+
+interface MeasurePanelProps {
+  // The shape being drawn, null once it's finished
+  mode: MeasureMode | null;
+  onModeChange: (mode: MeasureMode | null) => void;
+  measurement: Measurement | null;
+  units: Units;
+  isCopied: boolean;
+  // Too many vertices for a route can't be turned into waypoints
+  canMakeRoute: boolean;
+  onCopy: () => void;
+  onMakeRoute: () => void;
+  onClear: () => void;
+}
+
+// Measuring on the map: the live totals while a line or polygon is drawn, and what to do with it once it's finished
+const MeasurePanel: React.FC<MeasurePanelProps> = ({
+  mode,
+  onModeChange,
+  measurement,
+  units,
+  isCopied,
+  canMakeRoute,
+  onCopy,
+  onMakeRoute,
+  onClear,
+}) => {
+  const isFinished = !mode && !!measurement;
+
+  return (
+    <div
+      role="region"
+      aria-label="Measure"
+      style={{
+        position: "absolute",
+        top: "10px",
+        right: "10px",
+        width: "200px",
+        padding: "8px 12px",
+        backgroundColor: "white",
+        borderRadius: "4px",
+        boxShadow: "0 2px 6px rgba(0,0,0,0.3)",
+        zIndex: 1000,
+      }}
+    >
+      <div style={{ display: "flex", gap: "4px" }}>
+        <button
+          aria-pressed={mode === "line"}
+          onClick={() => onModeChange(mode === "line" ? null : "line")}
+        >
+          Measure distance
+        </button>
+        <button
+          aria-pressed={mode === "polygon"}
+          onClick={() => onModeChange(mode === "polygon" ? null : "polygon")}
+        >
+          Measure area
+        </button>
+      </div>
+      {mode && (
+        <p style={{ fontSize: "small", margin: "6px 0" }}>
+          {mode === "line"
+            ? "Click to add points, double-click or press Enter to finish."
+            : "Click the corners, and the first corner again to finish."}{" "}
+          Press Esc to cancel.
+        </p>
+      )}
+      {measurement && (
+        <div role="status" aria-live="polite" style={{ marginTop: "6px" }}>
+          {measurement.area !== null && (
+            <div>
+              <strong>Area: {formatArea(measurement.area, units)}</strong>
+            </div>
+          )}
+          <div>
+            <strong>
+              {measurement.area !== null ? "Perimeter" : "Distance"}:{" "}
+              {formatDistance(measurement.distance, units)}
+            </strong>
+          </div>
+          {measurement.segments.length > 1 && (
+            <ol
+              aria-label="Segments"
+              style={{
+                margin: "4px 0",
+                paddingLeft: "20px",
+                maxHeight: "120px",
+                overflowY: "auto",
+                fontSize: "small",
+              }}
+            >
+              {measurement.segments.map((_, index) => (
+                <li key={index}>
+                  {describeSegment(measurement, index, units)}
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      )}
+      {isFinished && (
+        <div style={{ display: "flex", flexWrap: "wrap", gap: "4px" }}>
+          <button onClick={onCopy}>{isCopied ? "Copied" : "Copy"}</button>
+          <button
+            onClick={onMakeRoute}
+            disabled={!canMakeRoute}
+            title={
+              canMakeRoute
+                ? "Use the points as the waypoints of the current route"
+                : "Too many points for a route"
+            }
+          >
+            Make route
+          </button>
+          <button onClick={onClear}>Clear</button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MeasurePanel;
@@ -0,0 +1,103 @@
+import React from "react";
+import { formatDistance, formatDuration } from "./format";
+import { TRIP_ENDS, TripEnd } from "./optimization";
+import { Units } from "./preferences";
+
+export interface TripTotals {
+  // In metres
+  distance: number;
+  // In seconds
+  duration: number;
+}
+
+export interface OptimizedTrip {
+  order: number[];
+  end: TripEnd;
+  before: TripTotals;
+  after: TripTotals;
+}
+
+interface OptimizeOrderPanelProps {
+  end: TripEnd;
+  onEndChange: (end: TripEnd) => void;
+  canRoundTrip: boolean;
+  isOptimizing: boolean;
+  trip: OptimizedTrip | null;
+  error: string | null;
+  units: Units;
+  onOptimize: () => void;
+  onApply: () => void;
+  onDismiss: () => void;
+}
+
+// "Optimize order" for the current route: how the trip may end, and the totals of the found order before it's applied
+const OptimizeOrderPanel: React.FC<OptimizeOrderPanelProps> = ({
+  end,
+  onEndChange,
+  canRoundTrip,
+  isOptimizing,
+  trip,
+  error,
+  units,
+  onOptimize,
+  onApply,
+  onDismiss,
+}) => {
+  const savedDistance = trip ? trip.before.distance - trip.after.distance : 0;
+  const savedDuration = trip ? trip.before.duration - trip.after.duration : 0;
+
+  return (
+    <div style={{ marginBottom: "10px" }}>
+      <select
+        aria-label="How the optimized trip ends"
+        value={end}
+        onChange={(e) => onEndChange(e.target.value as TripEnd)}
+      >
+        {TRIP_ENDS.filter(
+          ({ value }) => value !== "roundTrip" || canRoundTrip
+        ).map(({ value, label }) => (
+          <option key={value} value={value}>
+            {label}
+          </option>
+        ))}
+      </select>{" "}
+      <button onClick={onOptimize} disabled={isOptimizing}>
+        {isOptimizing ? "Optimizing..." : "Optimize order"}
+      </button>
+      {error && (
+        <p role="alert" style={{ color: "maroon" }}>
+          {error}
+        </p>
+      )}
+      {trip && (
+        <div role="status">
+          <p>
+            Current order: {formatDistance(trip.before.distance, units)},{" "}
+            {formatDuration(trip.before.duration)}
+            <br />
+            Optimized: {formatDistance(trip.after.distance, units)},{" "}
+            {formatDuration(trip.after.duration)}
+            <br />
+            <strong>
+              {savedDistance > 0 || savedDuration > 0
+                ? `Saves ${formatDistance(
+                    Math.max(savedDistance, 0),
+                    units
+                  )} and ${formatDuration(Math.max(savedDuration, 0))}`
+                : trip.end === "roundTrip"
+                ? `${formatDistance(
+                    -savedDistance,
+                    units
+                  )} longer, as it includes the way back`
+                : "The current order is already the shortest found"}
+            </strong>
+          </p>
+          <button onClick={onApply}>Apply</button>
+          <button onClick={onDismiss}>Dismiss</button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default OptimizeOrderPanel;
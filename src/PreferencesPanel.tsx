@@ -0,0 +1,55 @@
+import React from "react";
+import { fromPaceMinutes, getPaceUnit, toPaceMinutes } from "./format";
+import { Preferences, Units } from "./preferences";
+
+interface PreferencesPanelProps {
+  preferences: Preferences;
+  onChange: (preferences: Preferences) => void;
+}
+
+// Units and walking pace used for the distances and durations across the app
+const PreferencesPanel: React.FC<PreferencesPanelProps> = ({
+  preferences,
+  onChange,
+}) => {
+  const { units, walkingPace } = preferences;
+
+  return (
+    <div style={{ marginBottom: "20px" }}>
+      <div>
+        <label>Units: </label>
+        <select
+          value={units}
+          onChange={(e) =>
+            onChange({ ...preferences, units: e.target.value as Units })
+          }
+        >
+          <option value="metric">Metric (km)</option>
+          <option value="imperial">Imperial (mi)</option>
+        </select>
+      </div>
+      <div>
+        <label>Walking pace: </label>
+        <input
+          type="number"
+          min={1}
+          step={0.5}
+          value={Math.round(toPaceMinutes(walkingPace, units) * 10) / 10}
+          onChange={(e) => {
+            const minutes = parseFloat(e.target.value);
+            if (minutes > 0) {
+              onChange({
+                ...preferences,
+                walkingPace: fromPaceMinutes(minutes, units),
+              });
+            }
+          }}
+          style={{ width: "60px" }}
+        />{" "}
+        {getPaceUnit(units)}
+      </div>
+    </div>
+  );
+};
+
+export default PreferencesPanel;
@@ -0,0 +1,62 @@
+import React from 'react';
+import { fireEvent, render, screen } from '@testing-library/react';
+import ReachableAreaPanel from './ReachableAreaPanel';
+
+const renderPanel = () => {
+  const onSettingsChange = jest.fn();
+  render(
+    <ReachableAreaPanel
+      settings={{ metric: 'time', bands: [10, 20] }}
+      onSettingsChange={onSettingsChange}
+      hiddenBands={[]}
+      onToggleBand={jest.fn()}
+      isLoading={false}
+      error={null}
+      onClear={jest.fn()}
+    />
+  );
+  return {
+    input: screen.getByRole('textbox', { name: /Bands/ }),
+    onSettingsChange,
+  };
+};
+
+test('the bands are applied once, on Enter, not while they are typed', () => {
+  const { input, onSettingsChange } = renderPanel();
+
+  ['1', '10', '10,', '10,2', '10,20', '10,20,3', '10,20,30'].forEach((value) =>
+    fireEvent.change(input, { target: { value } })
+  );
+  expect(onSettingsChange).not.toHaveBeenCalled();
+
+  fireEvent.keyDown(input, { key: 'Enter' });
+  expect(onSettingsChange).toHaveBeenCalledTimes(1);
+  expect(onSettingsChange).toHaveBeenCalledWith({
+    metric: 'time',
+    bands: [10, 20, 30],
+  });
+});
+
+test('leaving the field applies the bands, unless they are unchanged', () => {
+  const { input, onSettingsChange } = renderPanel();
+
+  fireEvent.change(input, { target: { value: '20 10' } });
+  fireEvent.blur(input);
+  expect(onSettingsChange).not.toHaveBeenCalled();
+
+  fireEvent.change(input, { target: { value: '15' } });
+  fireEvent.blur(input);
+  expect(onSettingsChange).toHaveBeenCalledWith({
+    metric: 'time',
+    bands: [15],
+  });
+});
+
+test('text without any valid band is put back', () => {
+  const { input, onSettingsChange } = renderPanel();
+
+  fireEvent.change(input, { target: { value: 'abc' } });
+  fireEvent.blur(input);
+  expect(onSettingsChange).not.toHaveBeenCalled();
+  expect(input).toHaveValue('10, 20');
+});
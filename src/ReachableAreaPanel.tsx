@@ -0,0 +1,159 @@
+import React, { useEffect, useState } from "react";
+import {
+  DEFAULT_ISOCHRONE_BANDS,
+  IsochroneMetric,
+  IsochroneSettings,
+  MAX_ISOCHRONE_BAND,
+  MAX_ISOCHRONE_BANDS,
+  normalizeBands,
+} from "./isochrones";
+
+// Colours of the bands, from the smallest area out
+export const ISOCHRONE_COLORS = ["#2a9d8f", "#e9c46a", "#f4a261", "#e76f51"];
+
+interface ReachableAreaPanelProps {
+  settings: IsochroneSettings;
+  onSettingsChange: (settings: IsochroneSettings) => void;
+  hiddenBands: number[];
+  onToggleBand: (band: number) => void;
+  isLoading: boolean;
+  error: string | null;
+  onClear: () => void;
+}
+
+// Comma or space separated numbers, e.g. "10, 20, 30"
+const parseBands = (text: string, metric: IsochroneMetric) =>
+  normalizeBands(
+    text
+      .split(/[\s,]+/)
+      .filter((band) => band !== "")
+      .map(Number),
+    metric
+  );
+
+export const formatBand = (band: number, metric: IsochroneMetric) =>
+  metric === "time" ? `${band} min` : `${band} km`;
+
+// Legend of the reachable area on the map, with a toggle per band and the bands to draw
+const ReachableAreaPanel: React.FC<ReachableAreaPanelProps> = ({
+  settings,
+  onSettingsChange,
+  hiddenBands,
+  onToggleBand,
+  isLoading,
+  error,
+  onClear,
+}) => {
+  // The typed text is kept as is, and its valid bands are applied once it's committed (Enter or leaving the field),
+  //    so that typing doesn't ask for an area at every keystroke. Text without any valid band is put back.
+  const [bandsText, setBandsText] = useState(settings.bands.join(", "));
+
+  const commitBands = () => {
+    const bands = parseBands(bandsText, settings.metric);
+    if (bands.length === 0) {
+      setBandsText(settings.bands.join(", "));
+    } else if (bands.join() !== settings.bands.join()) {
+      onSettingsChange({ ...settings, bands });
+    }
+  };
+
+  useEffect(() => {
+    setBandsText((prev) =>
+      parseBands(prev, settings.metric).join() === settings.bands.join()
+        ? prev
+        : settings.bands.join(", ")
+    );
+  }, [settings.bands, settings.metric]);
+
+  return (
+    <div
+      role="region"
+      aria-label="Reachable area"
+      style={{
+        position: "absolute",
+        bottom: "30px",
+        left: "10px",
+        width: "220px",
+        padding: "8px 12px",
+        backgroundColor: "white",
+        borderRadius: "4px",
+        boxShadow: "0 2px 6px rgba(0,0,0,0.3)",
+        zIndex: 1000,
+      }}
+    >
+      <div style={{ display: "flex", alignItems: "center" }}>
+        <strong style={{ flexGrow: 1 }}>Reachable area</strong>
+        <button onClick={onClear}>Clear</button>
+      </div>
+      <div style={{ marginTop: "6px" }}>
+        <select
+          aria-label="Reachable within"
+          value={settings.metric}
+          onChange={(e) => {
+            const metric = e.target.value as IsochroneMetric;
+            onSettingsChange({
+              metric,
+              bands: DEFAULT_ISOCHRONE_BANDS[metric],
+            });
+          }}
+        >
+          <option value="time">Travel time (min)</option>
+          <option value="distance">Travel distance (km)</option>
+        </select>
+      </div>
+      <div style={{ marginTop: "6px" }}>
+        <label>
+          Bands:{" "}
+          <input
+            type="text"
+            value={bandsText}
+            title={`Up to ${MAX_ISOCHRONE_BANDS} bands of at most ${formatBand(
+              MAX_ISOCHRONE_BAND[settings.metric],
+              settings.metric
+            )}`}
+            onChange={(e) => setBandsText(e.target.value)}
+            onBlur={commitBands}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") commitBands();
+            }}
+            style={{ width: "100px" }}
+          />
+        </label>
+      </div>
+      <ul style={{ listStyle: "none", padding: 0, margin: "6px 0 0" }}>
+        {settings.bands.map((band, index) => (
+          <li key={band}>
+            <label>
+              <input
+                type="checkbox"
+                checked={!hiddenBands.includes(band)}
+                onChange={() => onToggleBand(band)}
+              />
+              <span
+                aria-hidden="true"
+                style={{
+                  display: "inline-block",
+                  width: "12px",
+                  height: "12px",
+                  marginRight: "6px",
+                  verticalAlign: "middle",
+                  backgroundColor: ISOCHRONE_COLORS[index],
+                  opacity: 0.6,
+                }}
+              />
+              Within {formatBand(band, settings.metric)}
+            </label>
+          </li>
+        ))}
+      </ul>
+      {isLoading && <p role="status">Finding reachable area...</p>}
+      {error && (
+        <p role="alert" style={{ color: "maroon" }}>
+          {error}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default ReachableAreaPanel;
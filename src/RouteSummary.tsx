@@ -0,0 +1,30 @@
+import React from "react";
+import { formatDistance, formatDuration } from "./format";
+import { Units } from "./preferences";
+
+interface RouteSummaryProps {
+  // In metres
+  distance: number;
+  // In seconds, null when unknown
+  duration: number | null;
+  units: Units;
+  label?: string;
+}
+
+// Distance and duration of a route (or of several routes together)
+const RouteSummary: React.FC<RouteSummaryProps> = ({
+  distance,
+  duration,
+  units,
+  label,
+}) => {
+  return (
+    <p>
+      {label && <strong>{label} </strong>}
+      {formatDistance(distance, units)}
+      {duration !== null && <>, {formatDuration(duration)}</>}
+    </p>
+  );
+};
+
+export default RouteSummary;
@@ -0,0 +1,80 @@
+import React from 'react';
+import { fireEvent, render, screen } from '@testing-library/react';
+import { Route } from './interfaces';
+import { defaultPreferences } from './preferences';
+import SavedRouteItem from './SavedRouteItem';
+
+const route: Route = {
+  id: 1,
+  origin: { coordinates: [153.02, -27.47], address: 'Origin' },
+  stops: [],
+  destination: { coordinates: [153.03, -27.47], address: 'Destination' },
+  viaPoints: [],
+  geometry: null,
+  alternatives: [],
+  selectedAlternative: 0,
+  profile: 'walking',
+  name: 'To work',
+  notes: '',
+  hidden: false,
+  color: '#e6194b',
+};
+
+const renderItem = (isSelected: boolean) => {
+  const onSelect = jest.fn();
+  render(
+    <SavedRouteItem
+      route={route}
+      isEditing={false}
+      isSelected={isSelected}
+      onSelect={onSelect}
+      onChange={jest.fn()}
+      onProfileChange={jest.fn()}
+      onEdit={jest.fn()}
+      onDelete={jest.fn()}
+      preferences={defaultPreferences()}
+      highlightedStep={null}
+      onStepHover={jest.fn()}
+      onStepSelect={jest.fn()}
+    />
+  );
+  return { item: screen.getByRole('group', { name: 'To work' }), onSelect };
+};
+
+test('the select button selects the route', () => {
+  const { onSelect } = renderItem(false);
+  const button = screen.getByRole('button', { name: 'Select' });
+  expect(button).toHaveAttribute('aria-pressed', 'false');
+
+  fireEvent.click(button);
+  expect(onSelect).toHaveBeenCalledTimes(1);
+});
+
+test('clicking the item selects the route, but not clicking its fields', () => {
+  const { onSelect } = renderItem(false);
+
+  fireEvent.click(screen.getByRole('textbox', { name: 'Route name' }));
+  fireEvent.click(screen.getByRole('button', { name: 'Delete' }));
+  expect(onSelect).not.toHaveBeenCalled();
+
+  fireEvent.click(screen.getByText('From: Origin'));
+  expect(onSelect).toHaveBeenCalledTimes(1);
+});
+
+test('a selected route is marked as current and highlighted', () => {
+  const { item } = renderItem(true);
+
+  expect(item).toHaveAttribute('aria-current', 'true');
+  expect(item).toHaveStyle({ backgroundColor: '#e0ecf5' });
+  expect(screen.getByRole('button', { name: 'Select' })).toHaveAttribute(
+    'aria-pressed',
+    'true'
+  );
+});
+
+test('an unselected route is neither marked nor highlighted', () => {
+  const { item } = renderItem(false);
+
+  expect(item).not.toHaveAttribute('aria-current');
+  expect(item).not.toHaveStyle({ backgroundColor: '#e0ecf5' });
+});
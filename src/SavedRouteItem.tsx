@@ -0,0 +1,180 @@
+import React, { useEffect, useRef, useState } from "react";
+import ExportMenu from "./ExportMenu";
+import InstructionList from "./InstructionList";
+import { Route, RouteStep, RoutingProfile } from "./interfaces";
+import { Preferences } from "./preferences";
+import { ROUTING_PROFILES } from "./profiles";
+import { exportRoutes } from "./routeExport";
+import { getRouteDistance, getRouteDuration } from "./routes";
+import RouteSummary from "./RouteSummary";
+
+interface SavedRouteItemProps {
+  route: Route;
+  // Set while the route is loaded into the current route for editing
+  isEditing: boolean;
+  // Picked here or on the map, and highlighted there
+  isSelected: boolean;
+  onSelect: () => void;
+  onChange: (changes: Partial<Route>) => void;
+  onProfileChange: (profile: RoutingProfile) => void;
+  onEdit: () => void;
+  onDelete: () => void;
+  preferences: Preferences;
+  highlightedStep: RouteStep | null;
+  onStepHover: (step: RouteStep | null) => void;
+  onStepSelect: (step: RouteStep) => void;
+}
+
+// A saved route in the left panel, with its details and the actions to manage it
+const SavedRouteItem: React.FC<SavedRouteItemProps> = ({
+  route,
+  isEditing,
+  isSelected,
+  onSelect,
+  onChange,
+  onProfileChange,
+  onEdit,
+  onDelete,
+  preferences,
+  highlightedStep,
+  onStepHover,
+  onStepSelect,
+}) => {
+  const [showInstructions, setShowInstructions] = useState(false);
+  const steps = route.alternatives[route.selectedAlternative]?.steps || [];
+
+  // A route picked on the map is brought into view in the list
+  const itemRef = useRef<HTMLDivElement>(null);
+  useEffect(() => {
+    if (isSelected) {
+      itemRef.current?.scrollIntoView?.({
+        behavior: "smooth",
+        block: "nearest",
+      });
+    }
+  }, [isSelected]);
+
+  // Clicking the item selects it, except when the click is meant for one of its fields or buttons
+  const handleClick = (e: React.MouseEvent) => {
+    if (
+      (e.target as HTMLElement).closest(
+        "input, select, textarea, button, label, summary"
+      )
+    )
+      return;
+    onSelect();
+  };
+
+  return (
+    <div
+      ref={itemRef}
+      role="group"
+      aria-label={route.name}
+      aria-current={isSelected || undefined}
+      onClick={handleClick}
+      style={{
+        borderLeft: `4px solid ${route.color}`,
+        paddingLeft: "8px",
+        marginBottom: "15px",
+        opacity: route.hidden ? 0.6 : 1,
+        backgroundColor: isSelected ? "#e0ecf5" : undefined,
+        cursor: "pointer",
+      }}
+    >
+      <div style={{ display: "flex", alignItems: "center" }}>
+        <input
+          type="text"
+          value={route.name}
+          aria-label="Route name"
+          onChange={(e) => onChange({ name: e.target.value })}
+          style={{ flexGrow: 1, fontWeight: "bold" }}
+        />
+        <input
+          type="color"
+          value={route.color}
+          title="Line color"
+          onChange={(e) => onChange({ color: e.target.value })}
+        />
+      </div>
+      <p>
+        Profile:{" "}
+        {/* Changing the profile re-fetches the saved route through the same waypoints */}
+        <select
+          value={route.profile}
+          onChange={(e) => onProfileChange(e.target.value as RoutingProfile)}
+        >
+          {ROUTING_PROFILES.map(({ value, label }) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+        </select>
+      </p>
+      <p>From: {route.origin.address}</p>
+      {route.stops.map((stop, index) => (
+        <p key={index}>
+          Stop {index + 1}: {stop.address}
+        </p>
+      ))}
+      <p>To: {route.destination.address}</p>
+      <RouteSummary
+        distance={getRouteDistance(route)}
+        duration={getRouteDuration(route, preferences.walkingPace)}
+        units={preferences.units}
+      />
+      {steps.length > 0 && (
+        <div style={{ marginBottom: "10px" }}>
+          <button onClick={() => setShowInstructions(!showInstructions)}>
+            {showInstructions ? "Hide" : "Show"} directions ({steps.length})
+          </button>
+          {showInstructions && (
+            <InstructionList
+              steps={steps}
+              units={preferences.units}
+              highlightedStep={highlightedStep}
+              onHover={onStepHover}
+              onSelect={onStepSelect}
+            />
+          )}
+        </div>
+      )}
+      <textarea
+        value={route.notes}
+        placeholder="Notes"
+        aria-label="Route notes"
+        onChange={(e) => onChange({ notes: e.target.value })}
+        style={{ width: "100%", boxSizing: "border-box" }}
+      />
+      <div>
+        <label>
+          <input
+            type="checkbox"
+            checked={!route.hidden}
+            onChange={(e) => onChange({ hidden: !e.target.checked })}
+          />
+          Show on map
+        </label>
+      </div>
+      <div>
+        {/* The same as clicking the item, for the keyboard */}
+        <button
+          onClick={onSelect}
+          aria-pressed={isSelected}
+          title="Highlight the route and zoom to it"
+        >
+          Select
+        </button>
+        <button onClick={onEdit} disabled={isEditing}>
+          {isEditing ? "Editing" : "Edit"}
+        </button>
+        <button onClick={onDelete}>Delete</button>
+        <ExportMenu
+          label="Export..."
+          onExport={(format) => exportRoutes([route], format, route.name)}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default SavedRouteItem;
@@ -0,0 +1,69 @@
+import React from "react";
+import { Popup } from "react-map-gl";
+import { Route } from "./interfaces";
+import { Preferences } from "./preferences";
+import { getRouteDistance, getRouteDuration } from "./routes";
+import RouteSummary from "./RouteSummary";
+
+interface SavedRoutePopupProps {
+  route: Route;
+  // Where the route was clicked
+  longitude: number;
+  latitude: number;
+  preferences: Preferences;
+  onEdit: () => void;
+  onZoom: () => void;
+  onHide: () => void;
+  onDelete: () => void;
+  onClose: () => void;
+}
+
+// Details and actions of a saved route clicked on the map
+const SavedRoutePopup: React.FC<SavedRoutePopupProps> = ({
+  route,
+  longitude,
+  latitude,
+  preferences,
+  onEdit,
+  onZoom,
+  onHide,
+  onDelete,
+  onClose,
+}) => {
+  return (
+    <Popup
+      longitude={longitude}
+      latitude={latitude}
+      onClose={onClose}
+      // The click that opened it would close it again
+      closeOnClick={false}
+      maxWidth="260px"
+    >
+      <div
+        style={{ borderLeft: `4px solid ${route.color}`, paddingLeft: "8px" }}
+      >
+        <strong>{route.name}</strong>
+        <div>From: {route.origin.address}</div>
+        {route.stops.map((stop, index) => (
+          <div key={index}>
+            Stop {index + 1}: {stop.address}
+          </div>
+        ))}
+        <div>To: {route.destination.address}</div>
+        <RouteSummary
+          distance={getRouteDistance(route)}
+          duration={getRouteDuration(route, preferences.walkingPace)}
+          units={preferences.units}
+        />
+        <div style={{ display: "flex", flexWrap: "wrap", gap: "4px" }}>
+          <button onClick={onEdit}>Edit</button>
+          <button onClick={onZoom}>Zoom to</button>
+          <button onClick={onHide}>Hide</button>
+          <button onClick={onDelete}>Delete</button>
+        </div>
+      </div>
+    </Popup>
+  );
+};
+
+export default SavedRoutePopup;
@@ -0,0 +1,139 @@
+import React, { useEffect, useState } from "react";
+import {
+  isLanguage,
+  PlaceType,
+  PLACE_TYPES,
+  SearchPreferences,
+} from "./preferences";
+
+interface SearchPreferencesPanelProps {
+  search: SearchPreferences;
+  onChange: (search: SearchPreferences) => void;
+}
+
+// Comma or space separated country codes, e.g. "au, nz"
+const parseCountries = (text: string) =>
+  text
+    .split(/[\s,]+/)
+    .map((code) => code.trim().toLowerCase())
+    .filter((code) => /^[a-z]{2}$/.test(code));
+
+// Location bias and filters of the address search, folded away by default
+const SearchPreferencesPanel: React.FC<SearchPreferencesPanelProps> = ({
+  search,
+  onChange,
+}) => {
+  // The typed text is kept as is, only the valid codes are applied
+  const [countriesText, setCountriesText] = useState(
+    search.countries.join(", ")
+  );
+
+  useEffect(() => {
+    setCountriesText((prev) =>
+      parseCountries(prev).join() === search.countries.join()
+        ? prev
+        : search.countries.join(", ")
+    );
+  }, [search.countries]);
+
+  // Likewise the language is only applied once it's a whole tag, not while it's typed (e.g. "p", "pt-")
+  const [languageText, setLanguageText] = useState(search.language);
+
+  useEffect(() => {
+    setLanguageText((prev) =>
+      prev.trim() === search.language ? prev : search.language
+    );
+  }, [search.language]);
+
+  const togglePlaceType = (type: PlaceType) =>
+    onChange({
+      ...search,
+      placeTypes: search.placeTypes.includes(type)
+        ? search.placeTypes.filter((placeType) => placeType !== type)
+        : [...search.placeTypes, type],
+    });
+
+  return (
+    <details style={{ marginBottom: "20px" }}>
+      <summary>Search preferences</summary>
+      <div>
+        <label>
+          <input
+            type="checkbox"
+            checked={search.nearMapCenter}
+            onChange={(e) =>
+              onChange({ ...search, nearMapCenter: e.target.checked })
+            }
+          />
+          Prefer places near the map centre
+        </label>
+      </div>
+      <div>
+        <label>
+          <input
+            type="checkbox"
+            checked={search.withinMapView}
+            onChange={(e) =>
+              onChange({ ...search, withinMapView: e.target.checked })
+            }
+          />
+          Only places in the map view
+        </label>
+      </div>
+      <div>
+        <label>
+          Countries:{" "}
+          <input
+            type="text"
+            value={countriesText}
+            placeholder="Anywhere, or e.g. au, nz"
+            onChange={(e) => {
+              setCountriesText(e.target.value);
+              onChange({
+                ...search,
+                countries: parseCountries(e.target.value),
+              });
+            }}
+            style={{ width: "140px" }}
+          />
+        </label>
+      </div>
+      <div>
+        <label>
+          Language:{" "}
+          <input
+            type="text"
+            value={languageText}
+            placeholder="Browser default, or e.g. en"
+            aria-invalid={!isLanguage(languageText.trim())}
+            onChange={(e) => {
+              setLanguageText(e.target.value);
+              const language = e.target.value.trim();
+              if (isLanguage(language) && language !== search.language) {
+                onChange({ ...search, language });
+              }
+            }}
+            style={{ width: "140px" }}
+          />
+        </label>
+      </div>
+      <fieldset style={{ marginTop: "6px" }}>
+        <legend>Place types (all when none are ticked)</legend>
+        {PLACE_TYPES.map(({ value, label }) => (
+          <div key={value}>
+            <label>
+              <input
+                type="checkbox"
+                checked={search.placeTypes.includes(value)}
+                onChange={() => togglePlaceType(value)}
+              />
+              {label}
+            </label>
+          </div>
+        ))}
+      </fieldset>
+    </details>
+  );
+};
+
+export default SearchPreferencesPanel;
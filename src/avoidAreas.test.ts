@@ -0,0 +1,126 @@
+import {
+  AvoidArea,
+  findCrossedAreas,
+  getAvoidPoints,
+  isPointInPolygon,
+  loadAvoidAreas,
+  preferAvoidingAreas,
+  saveAvoidAreas,
+} from './avoidAreas';
+import { RouteAlternative } from './interfaces';
+
+type Coordinates = [number, number];
+
+const square = (
+  west: number,
+  south: number,
+  east: number,
+  north: number
+): Coordinates[] => [
+  [west, south],
+  [east, south],
+  [east, north],
+  [west, north],
+  [west, south],
+];
+
+const area: AvoidArea = {
+  id: 1,
+  name: 'Roadworks',
+  geometry: { type: 'Polygon', coordinates: [square(0, 0, 2, 2)] },
+  enabled: true,
+};
+
+const alternative = (coordinates: Coordinates[]): RouteAlternative => ({
+  geometry: { type: 'LineString', coordinates },
+  distance: 0,
+  duration: 0,
+  steps: [],
+});
+
+afterEach(() => {
+  localStorage.clear();
+  jest.restoreAllMocks();
+});
+
+test('points in a hole of the polygon are outside it', () => {
+  const withHole = [square(0, 0, 4, 4), square(1, 1, 3, 3)];
+
+  expect(isPointInPolygon([0.5, 0.5], withHole)).toBe(true);
+  expect(isPointInPolygon([2, 2], withHole)).toBe(false);
+  expect(isPointInPolygon([5, 2], withHole)).toBe(false);
+});
+
+test('finds areas crossed by the route, even without a vertex inside them', () => {
+  const throughArea = alternative([
+    [-1, 1],
+    [3, 1],
+  ]);
+  const aroundArea = alternative([
+    [-1, 3],
+    [3, 3],
+  ]);
+
+  expect(findCrossedAreas(throughArea.geometry, [area])).toEqual([area]);
+  expect(findCrossedAreas(aroundArea.geometry, [area])).toEqual([]);
+  expect(
+    findCrossedAreas(throughArea.geometry, [{ ...area, enabled: false }])
+  ).toEqual([]);
+});
+
+test('spreads the avoided points over the inside of the enabled areas', () => {
+  const triangle: AvoidArea = {
+    ...area,
+    id: 2,
+    geometry: {
+      type: 'Polygon',
+      coordinates: [
+        [
+          [0, 0],
+          [2, 0],
+          [0, 2],
+          [0, 0],
+        ],
+      ],
+    },
+  };
+
+  const points = getAvoidPoints([area, { ...triangle, enabled: false }]);
+  expect(points).toHaveLength(25);
+  expect(points[0]).toEqual([0.2, 0.2]);
+
+  const trianglePoints = getAvoidPoints([triangle]);
+  expect(trianglePoints.length).toBeGreaterThan(0);
+  expect(trianglePoints.length).toBeLessThan(25);
+  // On or under the long side
+  trianglePoints.forEach(([x, y]) => expect(x + y).toBeLessThan(2.000001));
+});
+
+test('puts the alternatives that avoid the areas first', () => {
+  const first = alternative([
+    [-1, 1],
+    [3, 1],
+  ]);
+  const second = alternative([
+    [-1, 3],
+    [3, 3],
+  ]);
+  const third = alternative([
+    [-1, -1],
+    [3, -1],
+  ]);
+
+  expect(preferAvoidingAreas([first, second, third], [area])).toEqual([
+    second,
+    third,
+    first,
+  ]);
+  expect(preferAvoidingAreas([first, second], [])).toEqual([first, second]);
+});
+
+test('drops stored areas that cannot be read', () => {
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+  saveAvoidAreas([area, { ...area, id: 2, geometry: null } as any]);
+
+  expect(loadAvoidAreas()).toEqual([area]);
+});
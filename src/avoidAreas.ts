@@ -0,0 +1,171 @@
+import { LineString, Polygon } from "geojson";
+import { getBounds } from "./geometry";
+import { RouteAlternative } from "./interfaces";
+
+type Coordinates = [number, number];
+
+// An area drawn on the map for routes to stay out of, e.g. a closure or construction zone
+export interface AvoidArea {
+  id: number;
+  name: string;
+  // A GeoJSON polygon: the outer ring, then any holes
+  geometry: { type: "Polygon"; coordinates: Coordinates[][] };
+  // Disabled areas stay in the list but routes may cross them
+  enabled: boolean;
+}
+
+const AVOID_AREAS_KEY = "mapbox-react-ts:avoid-areas";
+
+const isRing = (value: any) =>
+  Array.isArray(value) &&
+  value.length >= 4 &&
+  value.every(
+    (point) =>
+      Array.isArray(point) &&
+      point.length >= 2 &&
+      point.every((n: any) => typeof n === "number" && isFinite(n))
+  );
+
+const isAvoidArea = (value: any): value is AvoidArea =>
+  !!value &&
+  Number.isInteger(value.id) &&
+  typeof value.name === "string" &&
+  value.geometry?.type === "Polygon" &&
+  Array.isArray(value.geometry.coordinates) &&
+  value.geometry.coordinates.length > 0 &&
+  value.geometry.coordinates.every(isRing) &&
+  typeof value.enabled === "boolean";
+
+// Areas that can't be read are dropped one by one
+export const loadAvoidAreas = (): AvoidArea[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(AVOID_AREAS_KEY) || "[]");
+    return Array.isArray(stored) ? stored.filter(isAvoidArea) : [];
+  } catch (error) {
+    console.error("Error loading avoid areas:", error);
+    return [];
+  }
+};
+
+export const saveAvoidAreas = (areas: AvoidArea[]) => {
+  try {
+    localStorage.setItem(AVOID_AREAS_KEY, JSON.stringify(areas));
+  } catch (error) {
+    console.error("Error saving avoid areas:", error);
+  }
+};
+
+// Ray casting: a point is inside when a ray from it crosses the rings an odd number of times, which also leaves out the holes.
+// Longitude and latitude are treated as flat, close enough for areas of a few kilometres.
+export const isPointInPolygon = (
+  [x, y]: Coordinates,
+  rings: Coordinates[][]
+) => {
+  let isInside = false;
+  rings.forEach((ring) => {
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+      const [xi, yi] = ring[i];
+      const [xj, yj] = ring[j];
+      const spansY = yi > y ? yj <= y : yj > y;
+      if (spansY && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) {
+        isInside = !isInside;
+      }
+    }
+  });
+  return isInside;
+};
+
+const orientation = (a: Coordinates, b: Coordinates, c: Coordinates) =>
+  Math.sign((b[0] - a[0]) * (c[1] - a[1]) - (b[1] - a[1]) * (c[0] - a[0]));
+
+// Whether the segments ab and cd cross. Touching at the ends counts, collinear overlaps are left to the inside test.
+const segmentsIntersect = (
+  a: Coordinates,
+  b: Coordinates,
+  c: Coordinates,
+  d: Coordinates
+) =>
+  orientation(a, b, c) !== orientation(a, b, d) &&
+  orientation(c, d, a) !== orientation(c, d, b);
+
+// Whether any part of the line lies in the polygon: a vertex inside it, or a segment crossing one of its edges
+export const lineCrossesPolygon = (
+  line: Coordinates[],
+  rings: Coordinates[][]
+) =>
+  line.some((point) => isPointInPolygon(point, rings)) ||
+  line.some(
+    (point, i) =>
+      i > 0 &&
+      rings.some((ring) =>
+        ring.some(
+          (vertex, j) =>
+            j > 0 && segmentsIntersect(line[i - 1], point, ring[j - 1], vertex)
+        )
+      )
+  );
+
+// The enabled areas the route line goes through
+export const findCrossedAreas = (
+  geometry: LineString | null,
+  areas: AvoidArea[]
+) =>
+  geometry
+    ? areas.filter(
+        (area) =>
+          area.enabled &&
+          lineCrossesPolygon(
+            geometry.coordinates as Coordinates[],
+            area.geometry.coordinates
+          )
+      )
+    : [];
+
+// An area from a polygon drawn on the map
+export const toAvoidArea = (id: number, geometry: Polygon): AvoidArea => ({
+  id,
+  name: `Area ${id}`,
+  geometry: {
+    type: "Polygon",
+    coordinates: geometry.coordinates as Coordinates[][],
+  },
+  enabled: true,
+});
+
+// Points spread over the enabled areas for the backends that keep routes off points (see canAvoidPoints):
+//    the centres of a grid over each area, those that fall inside it
+const AVOID_GRID_SIZE = 5;
+
+export const getAvoidPoints = (areas: AvoidArea[]): Coordinates[] =>
+  areas
+    .filter((area) => area.enabled)
+    .flatMap(({ geometry: { coordinates: rings } }) => {
+      const [[west, south], [east, north]] = getBounds(rings[0]);
+      const cells = Array.from({ length: AVOID_GRID_SIZE }, (_, i) => i + 0.5);
+      return cells
+        .flatMap((i) =>
+          cells.map(
+            (j): Coordinates => [
+              west + ((east - west) * i) / AVOID_GRID_SIZE,
+              south + ((north - south) * j) / AVOID_GRID_SIZE,
+            ]
+          )
+        )
+        .filter((point) => isPointInPolygon(point, rings));
+    });
+
+// The backends can't avoid an area as such (at best a few points of it), so the alternatives that stay out of the
+//    enabled areas are put first.
+// The order is kept otherwise, so the recommended route still wins when every alternative (or none) crosses an area.
+export const preferAvoidingAreas = (
+  alternatives: RouteAlternative[],
+  areas: AvoidArea[]
+) =>
+  alternatives
+    .map((alternative, index) => ({
+      alternative,
+      index,
+      crosses: findCrossedAreas(alternative.geometry, areas).length > 0,
+    }))
+    .sort((a, b) => Number(a.crosses) - Number(b.crosses) || a.index - b.index)
+    .map(({ alternative }) => alternative);
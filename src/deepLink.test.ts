@@ -0,0 +1,80 @@
+import { parseDeepLink, toDeepLink } from './deepLink';
+import { Waypoint } from './interfaces';
+import { decodePolyline, encodePolyline } from './polyline';
+
+const point = (lng: number, lat: number): Waypoint => ({
+  coordinates: [lng, lat],
+  address: '',
+});
+
+const view = { longitude: 153.0251, latitude: -27.4698, zoom: 12 };
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+test('encodes polylines in the Google format', () => {
+  // The example from the format's documentation
+  const coordinates: [number, number][] = [
+    [-120.2, 38.5],
+    [-120.95, 40.7],
+    [-126.453, 43.252],
+  ];
+  expect(encodePolyline(coordinates)).toBe('_p~iF~ps|U_ulLnnqC_mqNvxq`@');
+  expect(decodePolyline('_p~iF~ps|U_ulLnnqC_mqNvxq`@')).toEqual(coordinates);
+  expect(() => decodePolyline('_p~iF~ps|U_')).toThrow();
+});
+
+test('a link restores the waypoints, via points, profile and map view', () => {
+  const route = {
+    origin: point(153.02, -27.47),
+    stops: [point(153.03, -27.47)],
+    destination: point(153.03, -27.48),
+    viaPoints: [
+      { coordinates: [153.025, -27.471] as [number, number], leg: 0 },
+    ],
+  };
+
+  const link = toDeepLink(route, 'cycling', view);
+  expect(parseDeepLink(link)).toEqual({ route, profile: 'cycling', view });
+});
+
+test('a plan with only one end keeps it in its place', () => {
+  const route = {
+    origin: null,
+    stops: [point(153.03, -27.47)],
+    destination: point(153.03, -27.48),
+    viaPoints: [],
+  };
+
+  expect(parseDeepLink(toDeepLink(route, 'walking', view))!.route).toEqual(
+    route
+  );
+});
+
+test('a plan with only stops keeps them as stops', () => {
+  const route = {
+    origin: null,
+    stops: [point(153.02, -27.47), point(153.03, -27.47)],
+    destination: null,
+    viaPoints: [],
+  };
+
+  const link = toDeepLink(route, 'walking', view);
+  expect(new URLSearchParams(link.slice(1)).get('missing')).toBe(
+    'origin,destination'
+  );
+  expect(parseDeepLink(link)!.route).toEqual(route);
+});
+
+test('leaves out the broken parts of a link', () => {
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+
+  expect(parseDeepLink('')).toBeNull();
+  expect(
+    parseDeepLink(
+      '#waypoints=_p~iF~ps|U_&profile=flying&map=12/-27.4698/153.0251'
+    )
+  ).toEqual({ route: null, profile: null, view });
+  expect(parseDeepLink('#map=12/-127/153')!.view).toBeNull();
+});
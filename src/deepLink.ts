@@ -0,0 +1,176 @@
+import { RoutingProfile, ViaPoint, Waypoint } from "./interfaces";
+import { decodePolyline, encodePolyline } from "./polyline";
+import { ROUTING_PROFILES } from "./profiles";
+import {
+  fromOrderedWaypoints,
+  getOrderedWaypoints,
+  MAX_ROUTE_COORDINATES,
+  WaypointRoute,
+} from "./waypoints";
+
+// Links to a route plan, kept in the URL hash, e.g.
+//   #waypoints=<polyline>&via=<polyline>&legs=0,2&profile=cycling&map=13.5/-27.4698/153.0251
+// Addresses aren't part of the link to keep it short, they are looked up again when the link is opened.
+
+export interface MapView {
+  longitude: number;
+  latitude: number;
+  zoom: number;
+}
+
+export interface DeepLink {
+  // Null when the link has no (valid) route
+  route: WaypointRoute | null;
+  profile: RoutingProfile | null;
+  view: MapView | null;
+}
+
+const toPlanParams = (route: WaypointRoute, profile: RoutingProfile) => {
+  const params = new URLSearchParams();
+  const waypoints = getOrderedWaypoints(route);
+
+  if (waypoints.length > 0) {
+    params.set(
+      "waypoints",
+      encodePolyline(waypoints.map((waypoint) => waypoint.coordinates))
+    );
+    // Otherwise a plan without one or both ends would always be read back with the origin and destination set
+    const missing = [
+      !route.origin && "origin",
+      !route.destination && "destination",
+    ].filter(Boolean);
+    if (missing.length > 0) params.set("missing", missing.join(","));
+  }
+  if (route.viaPoints.length > 0) {
+    params.set(
+      "via",
+      encodePolyline(route.viaPoints.map((viaPoint) => viaPoint.coordinates))
+    );
+    params.set(
+      "legs",
+      route.viaPoints.map((viaPoint) => viaPoint.leg).join(",")
+    );
+  }
+  params.set("profile", profile);
+  return params;
+};
+
+// The link for a route plan and map view, as the URL hash
+export const toDeepLink = (
+  route: WaypointRoute,
+  profile: RoutingProfile,
+  view: MapView
+) => {
+  const params = toPlanParams(route, profile);
+  params.set(
+    "map",
+    `${view.zoom.toFixed(2)}/${view.latitude.toFixed(
+      5
+    )}/${view.longitude.toFixed(5)}`
+  );
+
+  return `#${params.toString()}`;
+};
+
+// Whether two plans have the same link, i.e. they are the same at the precision of the link
+export const isSamePlan = (
+  route: WaypointRoute,
+  profile: RoutingProfile,
+  other: WaypointRoute,
+  otherProfile: RoutingProfile
+) =>
+  toPlanParams(route, profile).toString() ===
+  toPlanParams(other, otherProfile).toString();
+
+const toWaypoint = (coordinates: [number, number]): Waypoint => ({
+  coordinates,
+  address: "",
+});
+
+const isCoordinates = ([lng, lat]: [number, number]) =>
+  Math.abs(lng) <= 180 && Math.abs(lat) <= 90;
+
+const parseRoute = (params: URLSearchParams): WaypointRoute | null => {
+  const encodedWaypoints = params.get("waypoints");
+  if (!encodedWaypoints) return null;
+
+  const coordinates = decodePolyline(encodedWaypoints);
+  const viaCoordinates = params.get("via")
+    ? decodePolyline(params.get("via")!)
+    : [];
+  const legs = params.get("legs")
+    ? params.get("legs")!.split(",").map(Number)
+    : [];
+  const missing = (params.get("missing") || "").split(",");
+  const hasOrigin = !missing.includes("origin");
+  const hasDestination = !missing.includes("destination");
+
+  if (
+    coordinates.length === 0 ||
+    coordinates.length + viaCoordinates.length > MAX_ROUTE_COORDINATES ||
+    ![...coordinates, ...viaCoordinates].every(isCoordinates)
+  )
+    return null;
+
+  const waypoints = coordinates.map(toWaypoint);
+  const route: WaypointRoute =
+    hasOrigin && hasDestination
+      ? { ...fromOrderedWaypoints(waypoints), viaPoints: [] }
+      : {
+          origin: hasOrigin ? waypoints[0] : null,
+          stops: waypoints.slice(
+            hasOrigin ? 1 : 0,
+            hasDestination ? -1 : undefined
+          ),
+          destination: hasDestination ? waypoints[waypoints.length - 1] : null,
+          viaPoints: [],
+        };
+
+  // Via points only exist on the legs between waypoints
+  const legCount = coordinates.length - 1;
+  if (
+    legs.length !== viaCoordinates.length ||
+    !legs.every((leg) => Number.isInteger(leg) && leg >= 0 && leg < legCount)
+  )
+    return route;
+
+  const viaPoints: ViaPoint[] = viaCoordinates.map((coordinates, index) => ({
+    coordinates,
+    leg: legs[index],
+  }));
+  return { ...route, viaPoints };
+};
+
+const parseView = (value: string | null): MapView | null => {
+  const [zoom, latitude, longitude] = (value || "").split("/").map(Number);
+  if (
+    ![zoom, latitude, longitude].every(Number.isFinite) ||
+    !isCoordinates([longitude, latitude])
+  )
+    return null;
+
+  return { longitude, latitude, zoom: Math.min(Math.max(zoom, 0), 22) };
+};
+
+// Reads a link from the URL hash. Broken parts are left out, null when there's no link at all.
+export const parseDeepLink = (hash: string): DeepLink | null => {
+  const params = new URLSearchParams(hash.replace(/^#/, ""));
+  if (!params.has("waypoints") && !params.has("map")) return null;
+
+  let route: WaypointRoute | null = null;
+  try {
+    route = parseRoute(params);
+  } catch (error) {
+    console.error("Error reading the route from the link:", error);
+  }
+
+  const profile = params.get("profile");
+
+  return {
+    route,
+    profile: ROUTING_PROFILES.some(({ value }) => value === profile)
+      ? (profile as RoutingProfile)
+      : null,
+    view: parseView(params.get("map")),
+  };
+};
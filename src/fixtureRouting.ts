@@ -0,0 +1,115 @@
+import { haversineDistance, lineDistance } from "./geometry";
+import { RouteAlternative, RouteStep } from "./interfaces";
+import { PROFILE_SPEEDS } from "./profiles";
+import { RoutingService } from "./routing";
+import { ServiceError } from "./serviceErrors";
+import { getRoutePoints } from "./viaPoints";
+import { getOrderedWaypoints } from "./waypoints";
+
+type Coordinates = [number, number];
+
+const toLine = (coordinates: Coordinates[]) => ({
+  type: "LineString",
+  coordinates,
+});
+
+// A deterministic stand-in for a routing server that needs no network: routes are straight lines through
+//    the route points, timed with a fixed speed per profile. Used for offline development and tests.
+export const createFixtureRoutingService = (): RoutingService => ({
+  async getDirections(route, profile, options = {}) {
+    if (options.signal?.aborted) {
+      throw new DOMException("Aborted", "AbortError");
+    }
+    const routePoints = getRoutePoints(route);
+    if (routePoints.length < 2) throw new ServiceError("NoRoute");
+
+    const speed = PROFILE_SPEEDS[profile];
+    const waypointCount = getOrderedWaypoints(route).length;
+
+    // One step per leg (from a waypoint, through its via points, to the next waypoint) and one for the arrival
+    const steps: RouteStep[] = [];
+    let legStart = 0;
+    routePoints.forEach((point, index) => {
+      if (index === 0 || point.waypointIndex === null) return;
+
+      const legLine = routePoints
+        .slice(legStart, index + 1)
+        .map(({ coordinates }) => coordinates);
+      const distance = lineDistance(legLine);
+      steps.push({
+        instruction:
+          point.waypointIndex === waypointCount - 1
+            ? "Head to the destination"
+            : `Head to stop ${point.waypointIndex}`,
+        location: legLine[0],
+        geometry: toLine(legLine),
+        distance,
+        duration: distance / speed,
+      });
+      legStart = index;
+    });
+
+    const destination = routePoints[routePoints.length - 1].coordinates;
+    steps.push({
+      instruction: "You have arrived at your destination",
+      location: destination,
+      geometry: toLine([destination, destination]),
+      distance: 0,
+      duration: 0,
+    });
+
+    const line = routePoints.map(({ coordinates }) => coordinates);
+    const distance = lineDistance(line);
+    return [
+      {
+        geometry: toLine(line),
+        distance,
+        duration: distance / speed,
+        steps,
+      },
+    ];
+  },
+
+  // Straight lines have no kinds of roads to leave out
+  getExcludableRoads() {
+    return [];
+  },
+
+  // Nor can a straight line go around anything
+  canAvoidPoints() {
+    return false;
+  },
+
+  // There is only ever the one straight line
+  canFindAlternatives() {
+    return false;
+  },
+
+  async getMatrix(points, profile) {
+    const distances = points.map((from) =>
+      points.map((to) => haversineDistance(from, to))
+    );
+    return {
+      durations: distances.map((row) =>
+        row.map((distance) => distance / PROFILE_SPEEDS[profile])
+      ),
+      distances,
+    };
+  },
+
+  async snapPoint(point) {
+    return point;
+  },
+
+  async matchTrack(coordinates, profile): Promise<RouteAlternative | null> {
+    if (coordinates.length < 2) return null;
+
+    const distance = lineDistance(coordinates);
+    return {
+      geometry: toLine(coordinates),
+      distance,
+      duration: distance / PROFILE_SPEEDS[profile],
+      steps: [],
+    };
+  },
+});
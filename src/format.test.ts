@@ -0,0 +1,38 @@
+import {
+  formatDistance,
+  formatDuration,
+  fromPaceMinutes,
+  getPaceUnit,
+  toPaceMinutes,
+} from './format';
+
+test('formats short distances in metres or feet and longer ones in kilometres or miles', () => {
+  expect(formatDistance(850.4, 'metric')).toBe('850 m');
+  expect(formatDistance(1000, 'metric')).toBe('1.0 km');
+  expect(formatDistance(3249, 'metric')).toBe('3.2 km');
+
+  expect(formatDistance(152.4, 'imperial')).toBe('500 ft');
+  expect(formatDistance(1609.344, 'imperial')).toBe('1.0 mi');
+  expect(formatDistance(3218.688, 'imperial')).toBe('2.0 mi');
+});
+
+test('formats durations in minutes, and hours from an hour on', () => {
+  expect(formatDuration(0)).toBe('0 min');
+  expect(formatDuration(729)).toBe('12 min');
+  expect(formatDuration(3599)).toBe('1 h 0 min');
+  expect(formatDuration(3900)).toBe('1 h 5 min');
+});
+
+test('converts the walking pace between seconds per kilometre and minutes per unit', () => {
+  // 5 km/h
+  expect(toPaceMinutes(720, 'metric')).toBe(12);
+  expect(toPaceMinutes(720, 'imperial')).toBeCloseTo(19.31, 2);
+
+  expect(fromPaceMinutes(12, 'metric')).toBe(720);
+  expect(
+    fromPaceMinutes(toPaceMinutes(720, 'imperial'), 'imperial')
+  ).toBeCloseTo(720);
+
+  expect(getPaceUnit('metric')).toBe('min/km');
+  expect(getPaceUnit('imperial')).toBe('min/mi');
+});
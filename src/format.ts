@@ -0,0 +1,57 @@
+import { METRES_PER_MILE, Units } from "./preferences";
+
+const METRES_PER_FOOT = 0.3048;
+
+// Human readable distance, e.g. 850 m or 3.2 km (metric), 500 ft or 2.0 mi (imperial)
+export const formatDistance = (metres: number, units: Units) => {
+  if (units === "imperial") {
+    const miles = metres / METRES_PER_MILE;
+    return miles < 0.1
+      ? `${Math.round(metres / METRES_PER_FOOT)} ft`
+      : `${miles.toFixed(1)} mi`;
+  }
+
+  return metres < 1000
+    ? `${Math.round(metres)} m`
+    : `${(metres / 1000).toFixed(1)} km`;
+};
+
+const SQUARE_METRES_PER_ACRE = 4046.8564224;
+
+// Human readable area, e.g. 850 m², 3.2 ha or 1.5 km² (metric), 900 ft², 2.5 ac or 1.2 mi² (imperial)
+export const formatArea = (squareMetres: number, units: Units) => {
+  if (units === "imperial") {
+    const acres = squareMetres / SQUARE_METRES_PER_ACRE;
+    if (acres < 0.1) {
+      return `${Math.round(squareMetres / METRES_PER_FOOT ** 2)} ft²`;
+    }
+    return acres < 640
+      ? `${acres.toFixed(1)} ac`
+      : `${(acres / 640).toFixed(1)} mi²`;
+  }
+
+  if (squareMetres < 10000) return `${Math.round(squareMetres)} m²`;
+  return squareMetres < 1000000
+    ? `${(squareMetres / 10000).toFixed(1)} ha`
+    : `${(squareMetres / 1000000).toFixed(1)} km²`;
+};
+
+// Human readable duration, e.g. 12 min or 1 h 5 min
+export const formatDuration = (seconds: number) => {
+  const minutes = Math.round(seconds / 60);
+  if (minutes < 60) return `${minutes} min`;
+
+  return `${Math.floor(minutes / 60)} h ${minutes % 60} min`;
+};
+
+// Pace in minutes per kilometre or mile, from seconds per kilometre
+export const toPaceMinutes = (secondsPerKm: number, units: Units) =>
+  (units === "imperial"
+    ? (secondsPerKm * METRES_PER_MILE) / 1000
+    : secondsPerKm) / 60;
+
+export const fromPaceMinutes = (minutes: number, units: Units) =>
+  units === "imperial" ? (minutes * 60 * 1000) / METRES_PER_MILE : minutes * 60;
+
+export const getPaceUnit = (units: Units) =>
+  units === "imperial" ? "min/mi" : "min/km";
@@ -0,0 +1,158 @@
+import { createGeocodingService } from './geocoding';
+
+const jsonResponse = (data: any, status = 200, headers = {}) => ({
+  ok: status >= 200 && status < 300,
+  status,
+  headers: new Headers(headers),
+  json: async () => data,
+});
+
+const place = (name: string) => ({
+  features: [{ place_name: name, center: [153.02, -27.47] }],
+});
+
+const originalFetch = global.fetch;
+
+beforeEach(() => {
+  localStorage.clear();
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+  global.fetch = originalFetch;
+});
+
+test('caches lookups, evicting the least recently used and persisting them', async () => {
+  const fetchMock = jest
+    .fn()
+    .mockImplementation(async (url: string) =>
+      jsonResponse(place(url.includes('/1,') ? 'One' : 'Two'))
+    );
+  global.fetch = fetchMock;
+  const config = { accessToken: 'token', storageKey: 'cache', maxEntries: 2 };
+  const service = createGeocodingService(config);
+
+  expect(await service.reverseGeocode(1, 1)).toBe('One');
+  expect(await service.reverseGeocode(2, 2)).toBe('Two');
+  expect(await service.reverseGeocode(1, 1)).toBe('One');
+  expect(fetchMock).toHaveBeenCalledTimes(2);
+
+  // (2, 2) was used least recently
+  await service.search('brisbane');
+  expect(
+    JSON.parse(localStorage.getItem('cache')!).map(([key]: any) => key)
+  ).toEqual([
+    'reverse:1.00000,1.00000',
+    'search:autocomplete=true&limit=5:brisbane',
+  ]);
+
+  const restored = createGeocodingService(config);
+  expect(await restored.reverseGeocode(1, 1)).toBe('One');
+  expect(fetchMock).toHaveBeenCalledTimes(3);
+});
+
+test('sends the location bias and filters with the search', async () => {
+  const fetchMock = jest
+    .fn()
+    .mockResolvedValue(jsonResponse(place('Queen St')));
+  global.fetch = fetchMock;
+  const service = createGeocodingService({ accessToken: 'token' });
+
+  await service.search('Queen St', {
+    proximity: [153.0251, -27.4698],
+    bbox: [152.9, -27.6, 153.2, -27.3],
+    countries: ['au', 'nz'],
+    language: 'en',
+    types: ['address', 'poi'],
+  });
+
+  const url = new URL(fetchMock.mock.calls[0][0]);
+  expect(url.pathname).toMatch(/\/Queen%20St\.json$/);
+  expect(Object.fromEntries(url.searchParams)).toMatchObject({
+    proximity: '153.03,-27.47',
+    bbox: '152.9000,-27.6000,153.2000,-27.3000',
+    country: 'au,nz',
+    language: 'en',
+    types: 'address,poi',
+  });
+});
+
+test('shares a request in flight and aborts it once every caller has aborted', async () => {
+  let signal: AbortSignal | undefined;
+  global.fetch = jest.fn().mockImplementation(
+    (url: string, init: RequestInit) =>
+      new Promise((resolve, reject) => {
+        signal = init.signal!;
+        signal.addEventListener('abort', () =>
+          reject(new DOMException('Aborted', 'AbortError'))
+        );
+      })
+  );
+  const service = createGeocodingService({ accessToken: 'token' });
+
+  const first = new AbortController();
+  const second = new AbortController();
+  const firstSearch = service.search('bris', {}, first.signal);
+  const secondSearch = service.search('bris', {}, second.signal);
+  expect(global.fetch).toHaveBeenCalledTimes(1);
+
+  first.abort();
+  await expect(firstSearch).rejects.toHaveProperty('name', 'AbortError');
+  expect(signal!.aborted).toBe(false);
+
+  second.abort();
+  await expect(secondSearch).rejects.toHaveProperty('name', 'AbortError');
+  expect(signal!.aborted).toBe(true);
+});
+
+test('a search with an aborted signal is neither started nor joined', async () => {
+  global.fetch = jest.fn().mockResolvedValue(jsonResponse(place('Brisbane')));
+  const service = createGeocodingService({ accessToken: 'token' });
+  const aborted = new AbortController();
+  aborted.abort();
+
+  await expect(
+    service.search('bris', {}, aborted.signal)
+  ).rejects.toHaveProperty('name', 'AbortError');
+  expect(global.fetch).not.toHaveBeenCalled();
+
+  // A search that is still wanted goes ahead
+  const ongoing = service.search('bris', {});
+  await expect(
+    service.search('bris', {}, aborted.signal)
+  ).rejects.toHaveProperty('name', 'AbortError');
+  await expect(ongoing).resolves.toEqual([
+    { placeName: 'Brisbane', center: [153.02, -27.47] },
+  ]);
+  expect(global.fetch).toHaveBeenCalledTimes(1);
+});
+
+test('retries after the Retry-After delay when rate limited', async () => {
+  const fetchMock = jest
+    .fn()
+    .mockResolvedValueOnce(jsonResponse({}, 429, { 'Retry-After': '0.01' }))
+    .mockResolvedValueOnce(jsonResponse(place('Brisbane')));
+  global.fetch = fetchMock;
+  const service = createGeocodingService({ accessToken: 'token' });
+
+  expect(await service.search('bris')).toEqual([
+    { placeName: 'Brisbane', center: [153.02, -27.47] },
+  ]);
+  expect(fetchMock).toHaveBeenCalledTimes(2);
+});
+
+test('gives up when the rate limit persists', async () => {
+  global.fetch = jest
+    .fn()
+    .mockResolvedValue(jsonResponse({}, 429, { 'Retry-After': '0.01' }));
+  const service = createGeocodingService({
+    accessToken: 'token',
+    maxRetries: 1,
+  });
+
+  await expect(service.reverseGeocode(1, 1)).rejects.toHaveProperty(
+    'code',
+    'RateLimited'
+  );
+  expect(global.fetch).toHaveBeenCalledTimes(2);
+});
@@ -0,0 +1,265 @@
+import {
+  isAbortError,
+  ServiceError,
+  toServiceError,
+  wait,
+} from "./serviceErrors";
+
+const mapboxGeocodingApi = "https://api.mapbox.com/geocoding/v5/mapbox.places";
+
+// A place found by forward geocoding (address search)
+export interface GeocodingResult {
+  placeName: string;
+  center: [number, number];
+}
+
+export interface SearchOptions {
+  limit?: number;
+  // Results near this point come first
+  proximity?: [number, number];
+  // Only results within [west, south, east, north]
+  bbox?: [number, number, number, number];
+  // ISO 3166 alpha-2 country codes
+  countries?: string[];
+  language?: string;
+  types?: string[];
+}
+
+export interface GeocodingService {
+  // The address at the coordinates, null when nothing is found. Failures reject with a ServiceError.
+  reverseGeocode(
+    lng: number,
+    lat: number,
+    signal?: AbortSignal
+  ): Promise<string | null>;
+  // Address suggestions for a (partial) query.
+  // Failures reject with a ServiceError, and with an AbortError when the signal is aborted.
+  search(
+    query: string,
+    options?: SearchOptions,
+    signal?: AbortSignal
+  ): Promise<GeocodingResult[]>;
+}
+
+interface GeocodingConfig {
+  accessToken: string;
+  // Local storage key of the persisted cache, the cache is kept in memory only when not set
+  storageKey?: string;
+  maxEntries?: number;
+  // How many times a rate-limited (429) request is retried before giving up
+  maxRetries?: number;
+}
+
+// The part of a Mapbox geocoding response that is read
+interface GeocodingResponse {
+  features?: { place_name: string; center: [number, number] }[];
+}
+
+const abortError = () => new DOMException("Aborted", "AbortError");
+
+// Least recently used cache on top of a Map (which keeps insertion order), persisted to local storage
+const createLruCache = <T>(maxEntries: number, storageKey?: string) => {
+  let entries: Map<string, T> | null = null;
+
+  // Read lazily, on first use
+  const getEntries = () => {
+    if (entries) return entries;
+
+    entries = new Map();
+    if (storageKey) {
+      try {
+        const stored = JSON.parse(localStorage.getItem(storageKey) || "[]");
+        if (Array.isArray(stored)) {
+          stored
+            .filter((entry) => Array.isArray(entry) && entry.length === 2)
+            .slice(-maxEntries)
+            .forEach(([key, value]) => entries!.set(key, value));
+        }
+      } catch (error) {
+        // A broken cache is simply started over
+        console.error("Error loading geocoding cache:", error);
+      }
+    }
+    return entries;
+  };
+
+  const persist = () => {
+    if (!storageKey || !entries) return;
+    try {
+      localStorage.setItem(
+        storageKey,
+        JSON.stringify(Array.from(entries.entries()))
+      );
+    } catch (error) {
+      console.error("Error saving geocoding cache:", error);
+    }
+  };
+
+  return {
+    get(key: string) {
+      const cache = getEntries();
+      if (!cache.has(key)) return undefined;
+
+      // Moved to the end as the most recently used
+      const value = cache.get(key)!;
+      cache.delete(key);
+      cache.set(key, value);
+      return value;
+    },
+    set(key: string, value: T) {
+      const cache = getEntries();
+      cache.delete(key);
+      cache.set(key, value);
+      while (cache.size > maxEntries) {
+        cache.delete(cache.keys().next().value as string);
+      }
+      persist();
+    },
+  };
+};
+
+// Query parameters of a search. The proximity is rounded (to about a kilometre) so that
+// searches while the map is panned around slightly still hit the cache.
+const toSearchParams = ({
+  limit = 5,
+  proximity,
+  bbox,
+  countries,
+  language,
+  types,
+}: SearchOptions) => {
+  const params = new URLSearchParams({
+    autocomplete: "true",
+    limit: `${limit}`,
+  });
+  if (proximity) {
+    params.set("proximity", proximity.map((n) => n.toFixed(2)).join(","));
+  }
+  if (bbox) params.set("bbox", bbox.map((n) => n.toFixed(4)).join(","));
+  if (countries?.length) params.set("country", countries.join(","));
+  if (language) params.set("language", language);
+  if (types?.length) params.set("types", types.join(","));
+  return params.toString();
+};
+
+export const createGeocodingService = ({
+  accessToken,
+  storageKey,
+  maxEntries = 500,
+  maxRetries = 2,
+}: GeocodingConfig): GeocodingService => {
+  const cache = createLruCache<any>(maxEntries, storageKey);
+
+  // Requests in flight by URL, shared by every caller asking for the same thing.
+  // The request itself is only aborted once all of its callers have aborted.
+  const inFlight = new Map<
+    string,
+    { promise: Promise<unknown>; controller: AbortController; callers: number }
+  >();
+
+  // After a 429 every request waits until the rate limit is over
+  let rateLimitedUntil = 0;
+
+  const fetchJson = async (url: string, signal: AbortSignal) => {
+    for (let attempt = 0; ; attempt++) {
+      const delay = rateLimitedUntil - Date.now();
+      if (delay > 0) await wait(delay, signal);
+      if (signal.aborted) throw abortError();
+
+      let response: Response;
+      try {
+        response = await fetch(url, { signal });
+      } catch (error) {
+        if (isAbortError(error)) throw error;
+        throw new ServiceError("NetworkError");
+      }
+      if (response.status !== 429) {
+        const data = await response.json().catch(() => null);
+        if (!response.ok) throw toServiceError(response.status, data);
+        return data;
+      }
+
+      if (attempt >= maxRetries) throw new ServiceError("RateLimited");
+      // Retry-After is in seconds, otherwise backing off exponentially from one second
+      const retryAfter = parseFloat(response.headers.get("Retry-After") || "");
+      rateLimitedUntil =
+        Date.now() + (retryAfter > 0 ? retryAfter * 1000 : 1000 * 2 ** attempt);
+    }
+  };
+
+  const request = (url: string, signal?: AbortSignal): Promise<unknown> => {
+    // Already aborted, so the request isn't started or joined
+    if (signal?.aborted) return Promise.reject(abortError());
+
+    let entry = inFlight.get(url);
+    if (!entry) {
+      const controller = new AbortController();
+      const promise = fetchJson(url, controller.signal).finally(() => {
+        if (inFlight.get(url)?.promise === promise) inFlight.delete(url);
+      });
+      entry = { promise, controller, callers: 0 };
+      inFlight.set(url, entry);
+    }
+
+    const shared = entry;
+    shared.callers++;
+    if (!signal) return shared.promise;
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        shared.callers--;
+        if (shared.callers === 0) {
+          shared.controller.abort();
+          inFlight.delete(url);
+        }
+        reject(abortError());
+      };
+      signal.addEventListener("abort", onAbort, { once: true });
+      shared.promise.then(resolve, reject).finally(() => {
+        signal.removeEventListener("abort", onAbort);
+      });
+    });
+  };
+
+  return {
+    async reverseGeocode(lng, lat, signal) {
+      // Nearby points (about a metre apart) share an address
+      const key = `reverse:${lng.toFixed(5)},${lat.toFixed(5)}`;
+      const cached = cache.get(key);
+      if (cached !== undefined) return cached;
+
+      const url = `${mapboxGeocodingApi}/${lng},${lat}.json?access_token=${accessToken}`;
+      const data = (await request(url, signal)) as GeocodingResponse | null;
+      const address: string | null = data?.features?.[0]?.place_name ?? null;
+      // Cached if the same address is hit back again.
+      // This can be common since the user is likely to be working on the same area.
+      if (address) cache.set(key, address);
+      return address;
+    },
+
+    async search(query, options = {}, signal) {
+      const params = toSearchParams(options);
+      const key = `search:${params}:${query.trim().toLowerCase()}`;
+      const cached = cache.get(key);
+      if (cached !== undefined) return cached;
+
+      const url = `${mapboxGeocodingApi}/${encodeURIComponent(
+        query
+      )}.json?access_token=${accessToken}&${params}`;
+      const data = (await request(url, signal)) as GeocodingResponse | null;
+      const results: GeocodingResult[] = (data?.features || []).map(
+        (feature) => ({
+          placeName: feature.place_name,
+          center: feature.center,
+        })
+      );
+      cache.set(key, results);
+      return results;
+    },
+  };
+};
+
+export const geocodingService = createGeocodingService({
+  accessToken: process.env.REACT_APP_MAPBOX_API_TOKEN || "",
+  storageKey: "mapbox-react-ts:geocoding-cache",
+});
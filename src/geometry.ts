@@ -0,0 +1,106 @@
+type Coordinates = [number, number];
+
+const EARTH_RADIUS = 6371008.8;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+// Great-circle distance between two [lng, lat] points, in metres
+export const haversineDistance = (a: Coordinates, b: Coordinates) => {
+  const dLat = toRadians(b[1] - a[1]);
+  const dLng = toRadians(b[0] - a[0]);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a[1])) *
+      Math.cos(toRadians(b[1])) *
+      Math.sin(dLng / 2) ** 2;
+
+  return 2 * EARTH_RADIUS * Math.asin(Math.min(1, Math.sqrt(h)));
+};
+
+// Index of the line vertex closest to the point, with its distance in metres
+export const nearestVertex = (line: Coordinates[], point: Coordinates) =>
+  line.reduce(
+    (nearest, vertex, index) => {
+      const distance = haversineDistance(vertex, point);
+      return distance < nearest.distance ? { index, distance } : nearest;
+    },
+    { index: -1, distance: Infinity }
+  );
+
+// South-west and north-east corners of the coordinates, as expected by fitBounds
+export const getBounds = (
+  coordinates: Coordinates[]
+): [Coordinates, Coordinates] => [
+  [
+    Math.min(...coordinates.map(([lng]) => lng)),
+    Math.min(...coordinates.map(([, lat]) => lat)),
+  ],
+  [
+    Math.max(...coordinates.map(([lng]) => lng)),
+    Math.max(...coordinates.map(([, lat]) => lat)),
+  ],
+];
+
+// Length of a line, in metres
+export const lineDistance = (coordinates: Coordinates[]) =>
+  coordinates.reduce(
+    (sum, vertex, index) =>
+      index > 0 ? sum + haversineDistance(coordinates[index - 1], vertex) : sum,
+    0
+  );
+
+// Area of a polygon on the sphere, in square metres. Holes (the rings after the first) are taken out.
+// The same approximation as Mapbox's geojson-area, good to well under a percent for areas of a few kilometres.
+export const polygonArea = (rings: Coordinates[][]) =>
+  rings.reduce((total, ring, index) => {
+    let area = 0;
+    for (let i = 0; i < ring.length; i++) {
+      const lower = ring[i];
+      const middle = ring[(i + 1) % ring.length];
+      const upper = ring[(i + 2) % ring.length];
+      area +=
+        (toRadians(upper[0]) - toRadians(lower[0])) *
+        Math.sin(toRadians(middle[1]));
+    }
+    area = Math.abs((area * EARTH_RADIUS * EARTH_RADIUS) / 2);
+    return index === 0 ? area : total - area;
+  }, 0);
+
+const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+
+// The point reached from the start after the distance (in metres) along the bearing (in degrees from north)
+export const destinationPoint = (
+  start: Coordinates,
+  distance: number,
+  bearing: number
+): Coordinates => {
+  const angle = distance / EARTH_RADIUS;
+  const theta = toRadians(bearing);
+  const lat1 = toRadians(start[1]);
+  const lng1 = toRadians(start[0]);
+
+  const lat2 = Math.asin(
+    Math.sin(lat1) * Math.cos(angle) +
+      Math.cos(lat1) * Math.sin(angle) * Math.cos(theta)
+  );
+  const lng2 =
+    lng1 +
+    Math.atan2(
+      Math.sin(theta) * Math.sin(angle) * Math.cos(lat1),
+      Math.cos(angle) - Math.sin(lat1) * Math.sin(lat2)
+    );
+
+  return [((toDegrees(lng2) + 540) % 360) - 180, toDegrees(lat2)];
+};
+
+// A circle around the centre as a closed ring of points, e.g. for a polygon
+export const circleRing = (
+  center: Coordinates,
+  radius: number,
+  steps = 64
+): Coordinates[] => {
+  const ring = Array.from({ length: steps }, (_, i) =>
+    destinationPoint(center, radius, (i * 360) / steps)
+  );
+  return [...ring, ring[0]];
+};
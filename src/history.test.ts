@@ -0,0 +1,49 @@
+import {
+  createHistory,
+  MAX_HISTORY_LENGTH,
+  recordHistory,
+  redoHistory,
+  undoHistory,
+} from './history';
+
+test('undoes and redoes edits in order', () => {
+  let history = recordHistory(createHistory<string>(), 'A');
+  history = recordHistory(history, 'B');
+
+  const undone = undoHistory(history, 'C')!;
+  expect(undone.snapshot).toBe('B');
+  const undoneAgain = undoHistory(undone.history, 'B')!;
+  expect(undoneAgain.snapshot).toBe('A');
+  expect(undoHistory(undoneAgain.history, 'A')).toBeNull();
+
+  const redone = redoHistory(undoneAgain.history, 'A')!;
+  expect(redone.snapshot).toBe('B');
+  expect(redoHistory(redone.history, 'B')!.snapshot).toBe('C');
+});
+
+test('a new edit clears the redo entries', () => {
+  const history = recordHistory(createHistory<string>(), 'A');
+  const { history: undone } = undoHistory(history, 'B')!;
+
+  const edited = recordHistory(undone, 'A');
+  expect(redoHistory(edited, 'C')).toBeNull();
+});
+
+test('a run of the same edit is undone in one step', () => {
+  let history = recordHistory(createHistory<string>(), 'Route', 'name-1');
+  history = recordHistory(history, 'Route A', 'name-1');
+  history = recordHistory(history, 'Route AB', 'name-1');
+  expect(history.past).toEqual(['Route']);
+
+  history = recordHistory(history, 'Route ABC', 'color-1');
+  expect(history.past).toEqual(['Route', 'Route ABC']);
+});
+
+test('keeps a limited number of entries', () => {
+  let history = createHistory<number>();
+  for (let i = 0; i < MAX_HISTORY_LENGTH + 5; i++) {
+    history = recordHistory(history, i);
+  }
+  expect(history.past).toHaveLength(MAX_HISTORY_LENGTH);
+  expect(history.past[0]).toBe(5);
+});
@@ -0,0 +1,66 @@
+// Undo/redo history of snapshots. The present state isn't kept here, it's passed in when moving through the history.
+
+// Older entries are dropped beyond this
+export const MAX_HISTORY_LENGTH = 100;
+
+export interface History<T> {
+  past: T[];
+  future: T[];
+  // What the last entry was recorded for, so that a run of the same edit (e.g. typing a name) is undone in one step
+  lastEditKey: string | null;
+}
+
+export const createHistory = <T>(): History<T> => ({
+  past: [],
+  future: [],
+  lastEditKey: null,
+});
+
+// Records the state before an edit. A new edit clears the redo entries.
+// Consecutive edits with the same key only record the state before the first of them.
+export const recordHistory = <T>(
+  history: History<T>,
+  snapshot: T,
+  editKey: string | null = null
+): History<T> => {
+  if (editKey !== null && editKey === history.lastEditKey) return history;
+
+  return {
+    past: [...history.past, snapshot].slice(-MAX_HISTORY_LENGTH),
+    future: [],
+    lastEditKey: editKey,
+  };
+};
+
+// The state to go back to and the history after it, null when there's nothing to undo
+export const undoHistory = <T>(
+  history: History<T>,
+  present: T
+): { history: History<T>; snapshot: T } | null => {
+  if (history.past.length === 0) return null;
+
+  return {
+    history: {
+      past: history.past.slice(0, -1),
+      future: [present, ...history.future],
+      lastEditKey: null,
+    },
+    snapshot: history.past[history.past.length - 1],
+  };
+};
+
+export const redoHistory = <T>(
+  history: History<T>,
+  present: T
+): { history: History<T>; snapshot: T } | null => {
+  if (history.future.length === 0) return null;
+
+  return {
+    history: {
+      past: [...history.past, present],
+      future: history.future.slice(1),
+      lastEditKey: null,
+    },
+    snapshot: history.future[0],
+  };
+};
@@ -5,20 +5,77 @@ export interface Waypoint {
   address: string;
 }
 
+// Routing profiles supported by the Directions and Map Matching APIs
+export type RoutingProfile =
+  | "walking"
+  | "cycling"
+  | "driving"
+  | "driving-traffic";
+
+// A turn-by-turn instruction of a route, covering the part of the route up to the next maneuver
+export interface RouteStep {
+  instruction: string;
+  // Where the maneuver happens
+  location: [number, number];
+  // The part of the route this step covers
+  geometry: any;
+  // In metres
+  distance: number;
+  // In seconds
+  duration: number;
+}
+
+// One of the routes returned by the Directions API for the same waypoints
+export interface RouteAlternative {
+  geometry: any;
+  // In metres
+  distance: number;
+  // In seconds
+  duration: number;
+  // Instructions of all legs, in order
+  steps: RouteStep[];
+}
+
+// A point the route is dragged through (drag to re-route). It is not a stop, it only reshapes the route
+//    within the leg between two consecutive waypoints
+export interface ViaPoint {
+  coordinates: [number, number];
+  // Index of the leg, 0 being the leg that leaves the origin
+  leg: number;
+}
+
 export interface CurrentRoute {
   id: number;
   origin: Waypoint | null;
+  // Intermediate stops between the origin and destination, in visiting order
+  stops: Waypoint[];
   destination: Waypoint | null;
-  // Only the current route can be snapped - keeps the point information
-  rerouteSnapPoint: [number, number] | null;
+  // Only the current route can be snapped - keeps the snapped points, sorted by leg and then by order along the leg
+  viaPoints: ViaPoint[];
+  // Geometry of the selected alternative
   geometry: any;
+  alternatives: RouteAlternative[];
+  selectedAlternative: number;
+  profile: RoutingProfile;
 }
 
 export interface Route {
   id: number;
   origin: Waypoint;
+  stops: Waypoint[];
   destination: Waypoint;
+  viaPoints: ViaPoint[];
   geometry: any;
+  // Kept so the chosen alternative is remembered once the route is saved
+  alternatives: RouteAlternative[];
+  selectedAlternative: number;
+  profile: RoutingProfile;
+  name: string;
+  notes: string;
+  // Hidden routes stay in the saved list but are not drawn on the map
+  hidden: boolean;
+  // Line color, also used for the route's markers
+  color: string;
 }
 
 export interface ContextMenuProps {
@@ -30,3 +87,6 @@ export interface ContextMenuProps {
     lat: number;
   };
 }
+
+// Identifies a waypoint of the current route: either one of the two ends or the index of an intermediate stop
+export type WaypointSlot = "origin" | "destination" | number;
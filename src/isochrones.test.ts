@@ -0,0 +1,61 @@
+import { haversineDistance } from './geometry';
+import {
+  createLocalIsochroneService,
+  createMapboxIsochroneService,
+  normalizeBands,
+} from './isochrones';
+
+const center: [number, number] = [153.0251, -27.4698];
+
+const originalFetch = global.fetch;
+
+afterEach(() => {
+  jest.restoreAllMocks();
+  global.fetch = originalFetch;
+});
+
+test('keeps valid bands in order, within the limits', () => {
+  expect(normalizeBands([30, 10, NaN, 10, -5, 90, 20, 5, 45], 'time')).toEqual([
+    5, 10, 20, 30,
+  ]);
+  expect(normalizeBands([150, 2], 'distance')).toEqual([2]);
+});
+
+test('the local stand-in draws circles as far as the profile gets', async () => {
+  const service = createLocalIsochroneService();
+  const isochrones = await service.getIsochrones(center, 'walking', {
+    metric: 'time',
+    bands: [10, 20],
+  });
+
+  expect(isochrones.map((isochrone) => isochrone.band)).toEqual([20, 10]);
+  // 5 km/h for 10 minutes
+  const ring = isochrones[1].geometry.coordinates[0];
+  expect(haversineDistance(center, ring[0])).toBeCloseTo(833.3, 0);
+  expect(ring[0]).toEqual(ring[ring.length - 1]);
+});
+
+test('asks Mapbox for distance bands in metres', async () => {
+  const fetchMock = jest.fn().mockResolvedValue({
+    ok: true,
+    status: 200,
+    json: async () => ({
+      features: [
+        { properties: { contour: 1000 }, geometry: { type: 'Polygon' } },
+        { properties: { contour: 2000 }, geometry: { type: 'Polygon' } },
+      ],
+    }),
+  });
+  global.fetch = fetchMock;
+
+  const service = createMapboxIsochroneService('token');
+  const isochrones = await service.getIsochrones(center, 'cycling', {
+    metric: 'distance',
+    bands: [1, 2],
+  });
+
+  expect(fetchMock.mock.calls[0][0]).toContain(
+    '/cycling/153.0251,-27.4698?contours_meters=1000,2000&polygons=true'
+  );
+  expect(isochrones.map((isochrone) => isochrone.band)).toEqual([2, 1]);
+});
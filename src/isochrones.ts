@@ -0,0 +1,115 @@
+import { circleRing } from "./geometry";
+import { RoutingProfile } from "./interfaces";
+import { PROFILE_SPEEDS } from "./profiles";
+import { routingConfig } from "./routingService";
+import { fetchServiceJson, ServiceError } from "./serviceErrors";
+
+const mapboxIsochroneApi = "https://api.mapbox.com/isochrone/v1/mapbox";
+
+// Reachable areas are measured in travel time (minutes) or travel distance (kilometres)
+export type IsochroneMetric = "time" | "distance";
+
+export interface IsochroneSettings {
+  metric: IsochroneMetric;
+  // Minutes or kilometres, one area per band
+  bands: number[];
+}
+
+// The area reachable within one band
+export interface Isochrone {
+  band: number;
+  geometry: any;
+}
+
+// The Isochrone API draws at most 4 bands, of up to an hour or 100 km
+export const MAX_ISOCHRONE_BANDS = 4;
+export const MAX_ISOCHRONE_BAND: Record<IsochroneMetric, number> = {
+  time: 60,
+  distance: 100,
+};
+
+export const DEFAULT_ISOCHRONE_BANDS: Record<IsochroneMetric, number[]> = {
+  time: [10, 20, 30],
+  distance: [1, 2, 5],
+};
+
+// Valid, distinct bands in increasing order, within the limits
+export const normalizeBands = (bands: number[], metric: IsochroneMetric) =>
+  Array.from(
+    new Set(
+      bands.filter(
+        (band) =>
+          Number.isFinite(band) &&
+          band > 0 &&
+          band <= MAX_ISOCHRONE_BAND[metric]
+      )
+    )
+  )
+    .sort((a, b) => a - b)
+    .slice(0, MAX_ISOCHRONE_BANDS);
+
+// A backend for reachable areas. Failures reject with a ServiceError.
+export interface IsochroneService {
+  // The areas come largest first, so that smaller ones are drawn on top
+  getIsochrones(
+    center: [number, number],
+    profile: RoutingProfile,
+    settings: IsochroneSettings
+  ): Promise<Isochrone[]>;
+}
+
+// Reachable areas from the Mapbox Isochrone API
+export const createMapboxIsochroneService = (
+  accessToken: string
+): IsochroneService => ({
+  async getIsochrones(center, profile, { metric, bands }) {
+    const contours =
+      metric === "time"
+        ? `contours_minutes=${bands.join(",")}`
+        : `contours_meters=${bands.map((band) => band * 1000).join(",")}`;
+    const url = `${mapboxIsochroneApi}/${profile}/${center[0]},${center[1]}?${contours}&polygons=true&access_token=${accessToken}`;
+
+    const data = await fetchServiceJson(url);
+    if (!Array.isArray(data?.features)) {
+      throw new ServiceError("NoRoute");
+    }
+    return data.features
+      .map((feature: any) => ({
+        band:
+          metric === "time"
+            ? feature.properties.contour
+            : feature.properties.contour / 1000,
+        geometry: feature.geometry,
+      }))
+      .sort((a: Isochrone, b: Isochrone) => b.band - a.band);
+  },
+});
+
+// A local stand-in, for backends without isochrones and for working offline and tests.
+// The areas are circles, as far as the profile's average speed gets in the time (or the distance as the crow flies).
+export const createLocalIsochroneService = (): IsochroneService => ({
+  async getIsochrones(center, profile, { metric, bands }) {
+    return [...bands]
+      .sort((a, b) => b - a)
+      .map((band) => ({
+        band,
+        geometry: {
+          type: "Polygon",
+          coordinates: [
+            circleRing(
+              center,
+              metric === "time"
+                ? band * 60 * PROFILE_SPEEDS[profile]
+                : band * 1000
+            ),
+          ],
+        },
+      }));
+  },
+});
+
+// Mapbox draws the areas along the road network. OSRM has no isochrones, so it gets the local estimate too.
+export const isochroneService =
+  routingConfig.backend === "mapbox"
+    ? createMapboxIsochroneService(routingConfig.mapboxAccessToken)
+    : createLocalIsochroneService();
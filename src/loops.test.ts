@@ -0,0 +1,92 @@
+import { createFixtureRoutingService } from './fixtureRouting';
+import { haversineDistance } from './geometry';
+import { Waypoint } from './interfaces';
+import { generateLoops, getSelfOverlap, toLoopRoute } from './loops';
+import { ServiceError } from './serviceErrors';
+
+const origin: Waypoint = {
+  coordinates: [153.02, -27.47],
+  address: 'Start',
+};
+
+test('an out and back line overlaps itself by half', () => {
+  const line: [number, number][] = [
+    [153.02, -27.47],
+    [153.03, -27.47],
+    [153.04, -27.47],
+    [153.03, -27.47],
+    [153.02, -27.47],
+  ];
+  expect(getSelfOverlap(line)).toBeCloseTo(0.5);
+  expect(getSelfOverlap(line.slice(0, 3))).toBe(0);
+});
+
+test('generates loops close to the target, heading the preferred way', async () => {
+  const loops = await generateLoops(
+    createFixtureRoutingService(),
+    origin,
+    5000,
+    'north',
+    'walking'
+  );
+
+  expect(loops.length).toBe(5);
+  expect(loops.map((loop) => loop.score)).toEqual(
+    [...loops.map((loop) => loop.score)].sort((a, b) => a - b)
+  );
+  // Straight lines are shorter than the usual roads, so the first guess is routed again
+  expect(loops[0].alternative.distance).toBeGreaterThan(4750);
+  expect(loops[0].alternative.distance).toBeLessThan(5250);
+  expect(loops[0].overlap).toBe(0);
+  // The loop heading straight north goes through points north of the origin
+  const north = loops.find((loop) => loop.bearing === 0)!;
+  north.stops.forEach((stop) =>
+    expect(stop.coordinates[1]).toBeGreaterThan(origin.coordinates[1])
+  );
+  expect(
+    haversineDistance(
+      north.alternative.geometry.coordinates[0],
+      north.alternative.geometry.coordinates.slice(-1)[0]
+    )
+  ).toBe(0);
+});
+
+test('rejects when no loop has a route', async () => {
+  const service = {
+    ...createFixtureRoutingService(),
+    getDirections: () => Promise.reject(new ServiceError('NoRoute')),
+  };
+
+  await expect(
+    generateLoops(service, origin, 5000, 'any', 'cycling')
+  ).rejects.toHaveProperty('code', 'NoRoute');
+});
+
+test('an adopted loop ends back at the origin', () => {
+  const route = {
+    origin: null,
+    stops: [],
+    destination: null,
+    viaPoints: [{ coordinates: [153, -27] as [number, number], leg: 0 }],
+    name: 'Current',
+  };
+  const stops = [
+    { coordinates: [153.03, -27.46] as [number, number], address: '' },
+  ];
+  const loop = toLoopRoute(route, origin, {
+    bearing: 0,
+    stops,
+    alternative: { geometry: null, distance: 0, duration: 0, steps: [] },
+    overlap: 0,
+    score: 0,
+  });
+
+  expect(loop).toEqual({
+    origin,
+    stops,
+    destination: origin,
+    viaPoints: [],
+    name: 'Current',
+  });
+  expect(loop.destination).not.toBe(origin);
+});
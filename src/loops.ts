@@ -0,0 +1,197 @@
+import { destinationPoint, haversineDistance } from "./geometry";
+import { RouteAlternative, RoutingProfile, Waypoint } from "./interfaces";
+import { RoutingService } from "./routing";
+import { WaypointRoute, withOrderedWaypoints } from "./waypoints";
+
+type Coordinates = [number, number];
+
+// Which way the loop heads out from the origin
+export type LoopDirection =
+  | "any"
+  | "north"
+  | "northEast"
+  | "east"
+  | "southEast"
+  | "south"
+  | "southWest"
+  | "west"
+  | "northWest";
+
+export const LOOP_DIRECTIONS: {
+  value: LoopDirection;
+  label: string;
+  // Degrees from north, none for any direction
+  bearing?: number;
+}[] = [
+  { value: "any", label: "Any direction" },
+  { value: "north", label: "North", bearing: 0 },
+  { value: "northEast", label: "North-east", bearing: 45 },
+  { value: "east", label: "East", bearing: 90 },
+  { value: "southEast", label: "South-east", bearing: 135 },
+  { value: "south", label: "South", bearing: 180 },
+  { value: "southWest", label: "South-west", bearing: 225 },
+  { value: "west", label: "West", bearing: 270 },
+  { value: "northWest", label: "North-west", bearing: 315 },
+];
+
+// A proposed loop, back to the origin through the stops
+export interface LoopCandidate {
+  // Where the loop heads, in degrees from north
+  bearing: number;
+  // Without addresses, they are looked up once the loop is adopted
+  stops: Waypoint[];
+  alternative: RouteAlternative;
+  // Share of the length that runs along a part of the loop already covered
+  overlap: number;
+  // Lower is better: how far the distance is off the target (as a share of it) plus the overlap
+  score: number;
+}
+
+// Roads wind, so a loop through points on a circle comes out longer than the circle itself.
+// The first guess, it's corrected with the distance of the first routes.
+const ROAD_DETOUR_FACTOR = 1.3;
+// Points on the circle the loop goes through, besides the origin
+const LOOP_POINTS = 3;
+// Loops within this share of the target aren't routed again
+const DISTANCE_TOLERANCE = 0.05;
+// Bearings tried around the preferred direction, or all around for any direction
+const CANDIDATE_OFFSETS = [0, -30, 30, -60, 60];
+
+// Points for a loop of about the given distance (in metres), on a circle through the origin whose centre lies along the bearing
+export const getLoopPoints = (
+  origin: Coordinates,
+  distance: number,
+  bearing: number,
+  detourFactor = ROAD_DETOUR_FACTOR
+): Coordinates[] => {
+  const radius = distance / detourFactor / (2 * Math.PI);
+  const center = destinationPoint(origin, radius, bearing);
+  // Seen from the centre, the origin lies in the opposite direction of the bearing
+  return Array.from({ length: LOOP_POINTS }, (_, i) =>
+    destinationPoint(
+      center,
+      radius,
+      bearing + 180 + ((i + 1) * 360) / (LOOP_POINTS + 1)
+    )
+  );
+};
+
+// Share of a line's length that runs along a part it already covered, in either direction (e.g. out and back along a street).
+// Vertices are compared at about 10 metres.
+export const getSelfOverlap = (coordinates: Coordinates[]) => {
+  const toKey = ([lng, lat]: Coordinates) =>
+    `${lng.toFixed(4)},${lat.toFixed(4)}`;
+
+  const covered = new Set<string>();
+  let total = 0;
+  let overlapping = 0;
+  for (let i = 1; i < coordinates.length; i++) {
+    const distance = haversineDistance(coordinates[i - 1], coordinates[i]);
+    const ends = [toKey(coordinates[i - 1]), toKey(coordinates[i])].sort();
+    // A segment shorter than the rounding has nothing to compare
+    if (ends[0] === ends[1]) continue;
+
+    const key = ends.join(";");
+    total += distance;
+    if (covered.has(key)) {
+      overlapping += distance;
+    } else {
+      covered.add(key);
+    }
+  }
+  return total > 0 ? overlapping / total : 0;
+};
+
+export const scoreLoop = (distance: number, target: number, overlap: number) =>
+  Math.abs(distance - target) / target + overlap;
+
+const getBearings = (direction: LoopDirection) => {
+  const preferred = LOOP_DIRECTIONS.find(
+    ({ value }) => value === direction
+  )?.bearing;
+  return preferred === undefined
+    ? CANDIDATE_OFFSETS.map((_, i) => (i * 360) / CANDIDATE_OFFSETS.length)
+    : CANDIDATE_OFFSETS.map((offset) => (preferred + offset + 360) % 360);
+};
+
+// Routes the loop through the points on the circle, scored against the target
+const routeLoop = async (
+  service: RoutingService,
+  origin: Waypoint,
+  target: number,
+  bearing: number,
+  profile: RoutingProfile,
+  detourFactor?: number
+): Promise<LoopCandidate> => {
+  const stops = getLoopPoints(
+    origin.coordinates,
+    target,
+    bearing,
+    detourFactor
+  ).map((coordinates): Waypoint => ({ coordinates, address: "" }));
+  const [alternative] = await service.getDirections(
+    { origin, stops, destination: { ...origin }, viaPoints: [] },
+    profile
+  );
+  const overlap = getSelfOverlap(alternative.geometry.coordinates);
+  return {
+    bearing,
+    stops,
+    alternative,
+    overlap,
+    score: scoreLoop(alternative.distance, target, overlap),
+  };
+};
+
+// Candidate loops of about the target distance (in metres) from the origin, best first.
+// Each is routed once with the usual detour of the roads, and those too far off are routed again on a circle scaled by how far off they were.
+// Bearings without a route are left out. Rejects with the error of the first bearing when none has a route.
+export const generateLoops = async (
+  service: RoutingService,
+  origin: Waypoint,
+  target: number,
+  direction: LoopDirection,
+  profile: RoutingProfile
+): Promise<LoopCandidate[]> => {
+  const results = await Promise.allSettled(
+    getBearings(direction).map(async (bearing) => {
+      const first = await routeLoop(service, origin, target, bearing, profile);
+      const error = first.alternative.distance / target - 1;
+      if (Math.abs(error) <= DISTANCE_TOLERANCE) return first;
+
+      try {
+        const second = await routeLoop(
+          service,
+          origin,
+          target,
+          bearing,
+          profile,
+          ROAD_DETOUR_FACTOR * (1 + error)
+        );
+        return second.score < first.score ? second : first;
+      } catch (retryError) {
+        console.error("Error routing the loop again:", retryError);
+        return first;
+      }
+    })
+  );
+
+  const candidates = results
+    .filter(
+      (result): result is PromiseFulfilledResult<LoopCandidate> =>
+        result.status === "fulfilled"
+    )
+    .map((result) => result.value);
+  if (candidates.length === 0) {
+    throw (results[0] as PromiseRejectedResult).reason;
+  }
+  return candidates.sort((a, b) => a.score - b.score);
+};
+
+// The route of an adopted loop: out from the origin, through the stops and back to the origin
+export const toLoopRoute = <T extends WaypointRoute>(
+  route: T,
+  origin: Waypoint,
+  candidate: LoopCandidate
+): T =>
+  withOrderedWaypoints(route, [origin, ...candidate.stops, { ...origin }]);
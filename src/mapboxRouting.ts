@@ -0,0 +1,130 @@
+import { RoutingProfile } from "./interfaces";
+import {
+  hasSingleLeg,
+  RoadClass,
+  RoutingService,
+  sampleCoordinates,
+  toMatchedTrack,
+  toRequestCoordinates,
+  toExcludeParam,
+  toRouteAlternatives,
+  toTravelMatrix,
+} from "./routing";
+import { fetchServiceJson, ServiceError } from "./serviceErrors";
+
+const mapboxDirectionsApi = "https://api.mapbox.com/directions/v5/mapbox";
+const mapboxMatchingApi = "https://api.mapbox.com/matching/v5/mapbox";
+const mapboxMatrixApi = "https://api.mapbox.com/directions-matrix/v1/mapbox";
+
+// The Matrix API takes up to 25 coordinates, but only 10 with live traffic
+const MAX_TRAFFIC_MATRIX_COORDINATES = 10;
+
+// The Map Matching API accepts at most 100 coordinates per request
+const MAX_MATCHING_COORDINATES = 100;
+
+// Only driving keeps off points, at most 50 of them
+const POINT_AVOIDING_PROFILES: RoutingProfile[] = [
+  "driving",
+  "driving-traffic",
+];
+const MAX_AVOID_POINTS = 50;
+
+// Driving can leave out all of them, cycling only ferries and walking none
+const EXCLUDABLE_ROADS: Record<RoutingProfile, RoadClass[]> = {
+  walking: [],
+  cycling: ["ferry"],
+  driving: ["toll", "motorway", "ferry"],
+  "driving-traffic": ["toll", "motorway", "ferry"],
+};
+
+// Routing through the Mapbox Directions and Map Matching APIs
+export const createMapboxRoutingService = (
+  accessToken: string
+): RoutingService => ({
+  async getDirections(route, profile, options = {}) {
+    const { coordinates, waypoints } = toRequestCoordinates(route);
+    const avoidPoints = POINT_AVOIDING_PROFILES.includes(profile)
+      ? sampleCoordinates(options.avoidPoints || [], MAX_AVOID_POINTS)
+      : [];
+    const exclude = toExcludeParam(
+      options.exclude,
+      EXCLUDABLE_ROADS[profile],
+      avoidPoints
+    );
+
+    // Use the 'continue_straight' parameter to avoid U-turns - these look like double dips on the same route
+    // TODO This doesn't completely get rid of turning back from different roads on the same route (opposite road). But prevents the other lane on the same road.
+    const url = `${mapboxDirectionsApi}/${profile}/${coordinates}?geometries=geojson&continue_straight=true&alternatives=true&steps=true&waypoints=${waypoints}${exclude}&access_token=${accessToken}`;
+
+    const data = await fetchServiceJson(url, { signal: options.signal });
+    if (!data.routes || data.routes.length === 0) {
+      throw new ServiceError("NoRoute");
+    }
+    return toRouteAlternatives(data.routes);
+  },
+
+  getExcludableRoads(profile) {
+    return EXCLUDABLE_ROADS[profile];
+  },
+
+  canAvoidPoints(profile) {
+    return POINT_AVOIDING_PROFILES.includes(profile);
+  },
+
+  canFindAlternatives: hasSingleLeg,
+
+  async getMatrix(points, profile) {
+    // Larger matrices with traffic fall back to typical driving times, close enough for ordering stops
+    const matrixProfile =
+      profile === "driving-traffic" &&
+      points.length > MAX_TRAFFIC_MATRIX_COORDINATES
+        ? "driving"
+        : profile;
+    const coordinates = points
+      .map((coord) => `${coord[0]},${coord[1]}`)
+      .join(";");
+    const url = `${mapboxMatrixApi}/${matrixProfile}/${coordinates}?annotations=duration,distance&access_token=${accessToken}`;
+
+    return toTravelMatrix(await fetchServiceJson(url));
+  },
+
+  async snapPoint(point, profile) {
+    // Snapped with the route's profile, e.g. walking paths are not snapped to for a driving route
+    const url = `${mapboxMatchingApi}/${profile}/${point[0]},${point[1]}?access_token=${accessToken}&geometries=geojson`;
+
+    try {
+      const response = await fetch(url);
+      const data = await response.json();
+
+      if (data.matchings && data.matchings.length > 0) {
+        return data.matchings[0].geometry.coordinates[0] as [number, number];
+      }
+    } catch (error) {
+      console.error("Error snapping point to road:", error);
+    }
+
+    // If snapping fails, return the original point
+    return point;
+  },
+
+  async matchTrack(track, profile) {
+    // Long tracks are sampled down to the request limit
+    const coordinates = sampleCoordinates(track, MAX_MATCHING_COORDINATES)
+      .map((coord) => `${coord[0]},${coord[1]}`)
+      .join(";");
+    const url = `${mapboxMatchingApi}/${profile}/${coordinates}?geometries=geojson&overview=full&tidy=true&access_token=${accessToken}`;
+
+    try {
+      const response = await fetch(url);
+      const data = await response.json();
+
+      if (data.matchings && data.matchings.length > 0) {
+        return toMatchedTrack(data.matchings);
+      }
+    } catch (error) {
+      console.error("Error matching track:", error);
+    }
+
+    return null;
+  },
+});
@@ -0,0 +1,98 @@
+import { LineString, Polygon } from 'geojson';
+import {
+  describeMeasurement,
+  describeSegment,
+  measureGeometry,
+  toMeasurementWaypoints,
+} from './measure';
+
+const line: LineString = {
+  type: 'LineString',
+  coordinates: [
+    [0, 0],
+    [0.01, 0],
+    [0.01, 0.01],
+  ],
+};
+
+const square: Polygon = {
+  type: 'Polygon',
+  coordinates: [
+    [
+      [0, 0],
+      [0.01, 0],
+      [0.01, 0.01],
+      [0, 0.01],
+      [0, 0],
+    ],
+  ],
+};
+
+test('measures each segment of a line and the total', () => {
+  const measurement = measureGeometry(line)!;
+
+  expect(measurement.segments).toHaveLength(2);
+  // A hundredth of a degree is about 1.1 km at the equator
+  expect(measurement.segments[0]).toBeCloseTo(1112, 0);
+  expect(measurement.distance).toBeCloseTo(
+    measurement.segments[0] + measurement.segments[1]
+  );
+  expect(measurement.area).toBeNull();
+  expect(describeMeasurement(measurement, 'metric')).toBe(
+    'Distance: 2.2 km\n1. 1.1 km (total 1.1 km)\n2. 1.1 km (total 2.2 km)'
+  );
+});
+
+test('each segment carries the distance covered by its end', () => {
+  const measurement = measureGeometry(square)!;
+
+  expect(measurement.cumulative).toHaveLength(4);
+  measurement.cumulative.forEach((covered, index) =>
+    expect(covered).toBeCloseTo((index + 1) * 1112, -1)
+  );
+  expect(measurement.cumulative[3]).toBe(measurement.distance);
+  expect(describeSegment(measurement, 2, 'metric')).toBe(
+    '1.1 km (total 3.3 km)'
+  );
+  expect(describeMeasurement(measurement, 'metric').split('\n')[3]).toBe(
+    '2. 1.1 km (total 2.2 km)'
+  );
+});
+
+test('measures the area and perimeter of a polygon', () => {
+  const measurement = measureGeometry(square)!;
+
+  expect(measurement.points).toHaveLength(4);
+  expect(measurement.segments).toHaveLength(4);
+  expect(measurement.distance).toBeCloseTo(4 * 1112, -1);
+  expect(measurement.area! / (1112 * 1112)).toBeCloseTo(1, 2);
+});
+
+test('a polygon still being drawn has no area yet', () => {
+  const measurement = measureGeometry({
+    type: 'Polygon',
+    coordinates: [
+      [
+        [0, 0],
+        [0.01, 0],
+        [0, 0],
+      ],
+    ],
+  })!;
+
+  expect(measurement.segments).toHaveLength(1);
+  expect(measurement.area).toBe(0);
+});
+
+test('a polygon becomes a round trip through its vertices', () => {
+  const waypoints = toMeasurementWaypoints(measureGeometry(square)!);
+
+  expect(waypoints.map((waypoint) => waypoint.coordinates)).toEqual([
+    [0, 0],
+    [0.01, 0],
+    [0.01, 0.01],
+    [0, 0.01],
+    [0, 0],
+  ]);
+  expect(waypoints[0].coordinates).not.toBe(waypoints[4].coordinates);
+});
@@ -0,0 +1,122 @@
+import { Geometry, LineString, Polygon } from "geojson";
+import { formatArea, formatDistance } from "./format";
+import { haversineDistance, polygonArea } from "./geometry";
+import { Waypoint } from "./interfaces";
+import { Units } from "./preferences";
+
+type Coordinates = [number, number];
+
+// Distances along a line, or the area and perimeter of a polygon
+export type MeasureMode = "line" | "polygon";
+
+// The shapes that can be measured
+export type MeasureShape = LineString | Polygon;
+
+export interface Measurement {
+  mode: MeasureMode;
+  // The vertices, without repeating the first one at the end of a polygon
+  points: Coordinates[];
+  // Great-circle length of each segment in metres, including the closing one of a polygon
+  segments: number[];
+  // Length from the first vertex to the end of each segment
+  cumulative: number[];
+  // Total length, the perimeter of a polygon
+  distance: number;
+  // In square metres, null for lines
+  area: number | null;
+}
+
+const isSamePoint = (a: Coordinates, b: Coordinates) =>
+  a[0] === b[0] && a[1] === b[1];
+
+// The drawn geometry when it can be measured, null for anything else
+export const toMeasureShape = (
+  geometry: Geometry | null
+): MeasureShape | null =>
+  geometry?.type === "LineString" || geometry?.type === "Polygon"
+    ? geometry
+    : null;
+
+// Measures a drawn line or polygon (a shape still being drawn included)
+export const measureGeometry = (
+  geometry: MeasureShape | null
+): Measurement | null => {
+  if (!geometry) return null;
+
+  let mode: MeasureMode;
+  let points: Coordinates[];
+  if (geometry.type === "LineString") {
+    mode = "line";
+    points = geometry.coordinates as Coordinates[];
+  } else {
+    mode = "polygon";
+    const ring = (geometry.coordinates[0] || []) as Coordinates[];
+    points =
+      ring.length > 1 && isSamePoint(ring[0], ring[ring.length - 1])
+        ? ring.slice(0, -1)
+        : ring;
+  }
+
+  const path =
+    mode === "polygon" && points.length > 2 ? [...points, points[0]] : points;
+  const segments = path
+    .slice(1)
+    .map((point, index) => haversineDistance(path[index], point));
+  let covered = 0;
+  const cumulative = segments.map((segment) => (covered += segment));
+
+  return {
+    mode,
+    points,
+    segments,
+    cumulative,
+    distance: covered,
+    area:
+      mode === "polygon"
+        ? points.length > 2
+          ? polygonArea([[...points, points[0]]])
+          : 0
+        : null,
+  };
+};
+
+// The length of a segment and the distance covered by its end, e.g. "120 m (total 340 m)"
+export const describeSegment = (
+  measurement: Measurement,
+  index: number,
+  units: Units
+) =>
+  `${formatDistance(
+    measurement.segments[index],
+    units
+  )} (total ${formatDistance(measurement.cumulative[index], units)})`;
+
+// A plain text summary for the clipboard
+export const describeMeasurement = (measurement: Measurement, units: Units) => {
+  const totals =
+    measurement.area === null
+      ? [`Distance: ${formatDistance(measurement.distance, units)}`]
+      : [
+          `Area: ${formatArea(measurement.area, units)}`,
+          `Perimeter: ${formatDistance(measurement.distance, units)}`,
+        ];
+  const segments = measurement.segments.map(
+    (_, index) => `${index + 1}. ${describeSegment(measurement, index, units)}`
+  );
+  return [...totals, ...segments].join("\n");
+};
+
+// The vertices as waypoints in drawing order. A polygon becomes a round trip back to its first vertex.
+// The addresses are left to be looked up.
+export const toMeasurementWaypoints = (
+  measurement: Measurement
+): Waypoint[] => {
+  const points =
+    measurement.mode === "polygon"
+      ? [...measurement.points, measurement.points[0]]
+      : measurement.points;
+  return points.map((coordinates) => ({
+    coordinates: [...coordinates] as Coordinates,
+    address: "",
+  }));
+};
@@ -0,0 +1,50 @@
+import { Waypoint } from './interfaces';
+import { applyTripOrder, getTripCost, solveTrip } from './optimization';
+
+// Points along a line, so the best order is obvious
+const positions = [0, 3, 1, 4, 2];
+const costs = positions.map((a) => positions.map((b) => Math.abs(a - b)));
+
+const point = (address: string, lng: number): Waypoint => ({
+  coordinates: [lng, -27],
+  address,
+});
+
+test('finds the shortest order with a fixed start and end', () => {
+  const order = solveTrip(costs, 'fixed');
+  expect(order).toEqual([0, 2, 1, 3, 4]);
+  expect(getTripCost(costs, order, 'fixed')).toBe(6);
+});
+
+test('ends at the best point when the end is free', () => {
+  expect(solveTrip(costs, 'any')).toEqual([0, 2, 4, 1, 3]);
+});
+
+test('a round trip includes the way back', () => {
+  const order = solveTrip(costs, 'roundTrip');
+  expect(getTripCost(costs, order, 'roundTrip')).toBe(8);
+});
+
+test('the heuristic handles more points than are tried exhaustively', () => {
+  const many = [0, 9, 2, 7, 4, 5, 6, 3, 8, 1, 10, 11];
+  const manyCosts = many.map((a) => many.map((b) => Math.abs(a - b)));
+
+  const order = solveTrip(manyCosts, 'any');
+  expect(order[0]).toBe(0);
+  expect(new Set(order).size).toBe(many.length);
+  expect(getTripCost(manyCosts, order, 'any')).toBe(11);
+});
+
+test('applies the order to the route, closing a round trip at the origin', () => {
+  const route = {
+    origin: point('A', 153),
+    stops: [point('B', 153.01), point('C', 153.02)],
+    destination: point('D', 153.03),
+    viaPoints: [{ coordinates: [153, -27] as [number, number], leg: 0 }],
+  };
+
+  const reordered = applyTripOrder(route, [0, 2, 3, 1], 'roundTrip');
+  expect(reordered.stops.map((stop) => stop.address)).toEqual(['C', 'D', 'B']);
+  expect(reordered.destination.address).toBe('A');
+  expect(reordered.viaPoints).toEqual([]);
+});
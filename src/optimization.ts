@@ -0,0 +1,145 @@
+import { Waypoint } from "./interfaces";
+import {
+  getOrderedWaypoints,
+  MAX_ROUTE_COORDINATES,
+  WaypointRoute,
+  withOrderedWaypoints,
+} from "./waypoints";
+
+// How the optimized trip ends. The origin always stays the start.
+//   fixed     - at the current destination
+//   any       - at whichever waypoint makes the trip shortest
+//   roundTrip - back at the origin
+export type TripEnd = "fixed" | "any" | "roundTrip";
+
+export const TRIP_ENDS: { value: TripEnd; label: string }[] = [
+  { value: "fixed", label: "Keep the destination" },
+  { value: "any", label: "End anywhere" },
+  { value: "roundTrip", label: "Round trip" },
+];
+
+// Up to this many free points every order is tried, above it the order is improved step by step
+const MAX_EXACT_POINTS = 7;
+
+// Cost of visiting the points in the given order, with the way back to the first point for a round trip
+export const getTripCost = (
+  costs: number[][],
+  order: number[],
+  end: TripEnd
+) => {
+  let total = 0;
+  for (let i = 1; i < order.length; i++) {
+    total += costs[order[i - 1]][order[i]];
+  }
+  if (end === "roundTrip" && order.length > 1) {
+    total += costs[order[order.length - 1]][order[0]];
+  }
+  return total;
+};
+
+const permutations = (items: number[]): number[][] =>
+  items.length <= 1
+    ? [items]
+    : items.flatMap((item, index) =>
+        permutations([...items.slice(0, index), ...items.slice(index + 1)]).map(
+          (rest) => [item, ...rest]
+        )
+      );
+
+// Nearest neighbour from the start, then improved by reversing parts of it (2-opt) while that helps.
+// Costs may differ by direction (e.g. one way streets), so each change is measured on the whole trip.
+const improveTrip = (
+  costs: number[][],
+  start: number,
+  free: number[],
+  finish: number[],
+  end: TripEnd
+) => {
+  const remaining = [...free];
+  const order = [start];
+  while (remaining.length > 0) {
+    const last = order[order.length - 1];
+    const nearest = remaining.reduce((best, point) =>
+      costs[last][point] < costs[last][best] ? point : best
+    );
+    order.push(nearest);
+    remaining.splice(remaining.indexOf(nearest), 1);
+  }
+  order.push(...finish);
+
+  let bestCost = getTripCost(costs, order, end);
+  let improved = true;
+  while (improved) {
+    improved = false;
+    for (let i = 1; i < order.length - finish.length - 1; i++) {
+      for (let j = i + 1; j < order.length - finish.length; j++) {
+        const candidate = [
+          ...order.slice(0, i),
+          ...order.slice(i, j + 1).reverse(),
+          ...order.slice(j + 1),
+        ];
+        const cost = getTripCost(costs, candidate, end);
+        if (cost < bestCost - 1e-9) {
+          order.splice(0, order.length, ...candidate);
+          bestCost = cost;
+          improved = true;
+        }
+      }
+    }
+  }
+  return order;
+};
+
+// The order to visit the points of a cost matrix in. Point 0 is the start and, for a fixed end, the last point is the end.
+export const solveTrip = (costs: number[][], end: TripEnd): number[] => {
+  const count = costs.length;
+  if (count <= 2) return costs.map((_, index) => index);
+
+  const finish = end === "fixed" ? [count - 1] : [];
+  const free = costs
+    .map((_, index) => index)
+    .filter((index) => index !== 0 && !finish.includes(index));
+
+  if (free.length > MAX_EXACT_POINTS) {
+    return improveTrip(costs, 0, free, finish, end);
+  }
+
+  return permutations(free)
+    .map((order) => [0, ...order, ...finish])
+    .reduce((best, order) =>
+      getTripCost(costs, order, end) < getTripCost(costs, best, end)
+        ? order
+        : best
+    );
+};
+
+const isClosed = (waypoints: Waypoint[]) =>
+  waypoints.length > 2 &&
+  waypoints[0].coordinates.join() ===
+    waypoints[waypoints.length - 1].coordinates.join();
+
+// The waypoints that take part in the trip, in their current order (index 0 is the origin).
+// Unless the destination is kept, a route that already returns to its origin visits it once.
+export const getTripWaypoints = (route: WaypointRoute, end: TripEnd) => {
+  const waypoints = getOrderedWaypoints(route);
+  return end !== "fixed" && isClosed(waypoints)
+    ? waypoints.slice(0, -1)
+    : waypoints;
+};
+
+// A round trip adds the origin again as the destination, the old destination becomes a stop
+export const canMakeRoundTrip = (route: WaypointRoute) =>
+  getTripWaypoints(route, "roundTrip").length + 1 <= MAX_ROUTE_COORDINATES;
+
+// Puts the waypoints of a route into the solved order
+export const applyTripOrder = <T extends WaypointRoute>(
+  route: T,
+  order: number[],
+  end: TripEnd
+): T => {
+  const waypoints = getTripWaypoints(route, end);
+  const ordered: Waypoint[] = order.map((index) => waypoints[index]);
+  if (end === "roundTrip") ordered.push({ ...waypoints[0] });
+
+  return withOrderedWaypoints(route, ordered);
+};
@@ -0,0 +1,152 @@
+import { RoutingProfile } from "./interfaces";
+import {
+  hasSingleLeg,
+  RoadClass,
+  RoutingService,
+  sampleCoordinates,
+  toMatchedTrack,
+  toRequestCoordinates,
+  toExcludeParam,
+  toRouteAlternatives,
+  toTravelMatrix,
+} from "./routing";
+import { fetchServiceJson, ServiceError } from "./serviceErrors";
+
+// OSRM servers are usually started with the foot, bicycle and car profiles.
+// There is no live traffic, so driving with traffic uses the plain car profile.
+const OSRM_PROFILES: Record<RoutingProfile, string> = {
+  walking: "foot",
+  cycling: "bike",
+  driving: "driving",
+  "driving-traffic": "driving",
+};
+
+// Only the car profile marks roads that can be excluded
+const EXCLUDABLE_ROADS: Record<RoutingProfile, RoadClass[]> = {
+  walking: [],
+  cycling: [],
+  driving: ["toll", "motorway", "ferry"],
+  "driving-traffic": ["toll", "motorway", "ferry"],
+};
+
+// The default OSRM limit for the match service
+const MAX_MATCHING_COORDINATES = 100;
+
+const ordinal = (n: number) =>
+  `${n}${
+    ["th", "st", "nd", "rd"][n % 100 > 10 && n % 100 < 14 ? 0 : n % 10] || "th"
+  }`;
+
+// OSRM has no text instructions, so they are put together from the maneuver and the road name
+export const describeOsrmStep = (step: any) => {
+  const { type, modifier, exit } = step.maneuver;
+  const onto = step.name ? ` onto ${step.name}` : "";
+
+  switch (type) {
+    case "depart":
+      return `Head ${step.name ? `along ${step.name}` : "out"}`;
+    case "arrive":
+      return "You have arrived at your destination";
+    case "roundabout":
+    case "rotary":
+      return `Enter the roundabout${
+        exit ? ` and take the ${ordinal(exit)} exit` : ""
+      }${onto}`;
+    case "continue":
+    case "new name":
+      return `Continue${
+        modifier && modifier !== "straight" ? ` ${modifier}` : ""
+      }${onto}`;
+    case "merge":
+      return `Merge${modifier ? ` ${modifier}` : ""}${onto}`;
+    case "on ramp":
+    case "off ramp":
+      return `Take the ramp${modifier ? ` on the ${modifier}` : ""}${onto}`;
+    case "fork":
+      return `Keep ${modifier || "straight"} at the fork${onto}`;
+    default:
+      if (modifier === "uturn") return `Make a U-turn${onto}`;
+      return modifier === "straight"
+        ? `Go straight${onto}`
+        : `Turn${modifier ? ` ${modifier}` : ""}${onto}`;
+  }
+};
+
+// Routing through a self-hosted server with the OSRM HTTP API (route, nearest and match services)
+export const createOsrmRoutingService = (baseUrl: string): RoutingService => {
+  const api = baseUrl.replace(/\/+$/, "");
+
+  return {
+    async getDirections(route, profile, options = {}) {
+      const { coordinates, waypoints } = toRequestCoordinates(route);
+      const exclude = toExcludeParam(
+        options.exclude,
+        EXCLUDABLE_ROADS[profile]
+      );
+      const url = `${api}/route/v1/${OSRM_PROFILES[profile]}/${coordinates}?geometries=geojson&overview=full&continue_straight=true&alternatives=true&steps=true&waypoints=${waypoints}${exclude}`;
+
+      const data = await fetchServiceJson(url, { signal: options.signal });
+      if (!data.routes || data.routes.length === 0) {
+        throw new ServiceError("NoRoute");
+      }
+      return toRouteAlternatives(data.routes, describeOsrmStep);
+    },
+
+    getExcludableRoads(profile) {
+      return EXCLUDABLE_ROADS[profile];
+    },
+
+    // Only the road classes of its profiles can be left out
+    canAvoidPoints() {
+      return false;
+    },
+
+    canFindAlternatives: hasSingleLeg,
+
+    async getMatrix(points, profile) {
+      const coordinates = points
+        .map((coord) => `${coord[0]},${coord[1]}`)
+        .join(";");
+      const url = `${api}/table/v1/${OSRM_PROFILES[profile]}/${coordinates}?annotations=duration,distance`;
+
+      return toTravelMatrix(await fetchServiceJson(url));
+    },
+
+    async snapPoint(point, profile) {
+      const url = `${api}/nearest/v1/${OSRM_PROFILES[profile]}/${point[0]},${point[1]}?number=1`;
+
+      try {
+        const response = await fetch(url);
+        const data = await response.json();
+
+        if (data.waypoints && data.waypoints.length > 0) {
+          return data.waypoints[0].location as [number, number];
+        }
+      } catch (error) {
+        console.error("Error snapping point to road:", error);
+      }
+
+      return point;
+    },
+
+    async matchTrack(track, profile) {
+      const coordinates = sampleCoordinates(track, MAX_MATCHING_COORDINATES)
+        .map((coord) => `${coord[0]},${coord[1]}`)
+        .join(";");
+      const url = `${api}/match/v1/${OSRM_PROFILES[profile]}/${coordinates}?geometries=geojson&overview=full&tidy=true`;
+
+      try {
+        const response = await fetch(url);
+        const data = await response.json();
+
+        if (data.matchings && data.matchings.length > 0) {
+          return toMatchedTrack(data.matchings);
+        }
+      } catch (error) {
+        console.error("Error matching track:", error);
+      }
+
+      return null;
+    },
+  };
+};
@@ -0,0 +1,66 @@
+// Encoded polylines (the Google format, also used by Mapbox and OSRM).
+// Coordinates are [longitude, latitude] as everywhere else in the app, the format itself stores latitude first.
+
+const encodeValue = (value: number) => {
+  let rest = value < 0 ? ~(value << 1) : value << 1;
+  let encoded = "";
+  while (rest >= 0x20) {
+    encoded += String.fromCharCode((0x20 | (rest & 0x1f)) + 63);
+    rest >>= 5;
+  }
+  return encoded + String.fromCharCode(rest + 63);
+};
+
+export const encodePolyline = (
+  coordinates: [number, number][],
+  precision = 5
+) => {
+  const factor = 10 ** precision;
+  let previous = [0, 0];
+
+  return coordinates
+    .map(([lng, lat]) => {
+      const current = [Math.round(lat * factor), Math.round(lng * factor)];
+      const encoded =
+        encodeValue(current[0] - previous[0]) +
+        encodeValue(current[1] - previous[1]);
+      previous = current;
+      return encoded;
+    })
+    .join("");
+};
+
+// Throws when the text isn't a valid polyline
+export const decodePolyline = (
+  encoded: string,
+  precision = 5
+): [number, number][] => {
+  const factor = 10 ** precision;
+  const values: number[] = [];
+  let index = 0;
+
+  while (index < encoded.length) {
+    let result = 0;
+    let shift = 0;
+    let byte: number;
+    do {
+      if (index >= encoded.length) throw new Error("Incomplete polyline");
+      byte = encoded.charCodeAt(index++) - 63;
+      if (byte < 0 || byte > 63) throw new Error("Invalid polyline");
+      result |= (byte & 0x1f) << shift;
+      shift += 5;
+    } while (byte >= 0x20);
+    values.push(result & 1 ? ~(result >> 1) : result >> 1);
+  }
+  if (values.length % 2 !== 0) throw new Error("Incomplete polyline");
+
+  const coordinates: [number, number][] = [];
+  let lat = 0;
+  let lng = 0;
+  for (let i = 0; i < values.length; i += 2) {
+    lat += values[i];
+    lng += values[i + 1];
+    coordinates.push([lng / factor, lat / factor]);
+  }
+  return coordinates;
+};
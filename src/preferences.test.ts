@@ -0,0 +1,34 @@
+import {
+  defaultPreferences,
+  isLanguage,
+  loadPreferences,
+  savePreferences,
+} from './preferences';
+
+afterEach(() => {
+  localStorage.clear();
+});
+
+test('takes whole language tags only', () => {
+  ['', 'en', 'pt-BR', 'zh-Hant-TW', 'en,fr'].forEach((value) =>
+    expect(isLanguage(value)).toBe(true)
+  );
+  ['e', 'en-', 'pt-B', 'en,', 'english!', 'en fr'].forEach((value) =>
+    expect(isLanguage(value)).toBe(false)
+  );
+});
+
+test('a stored language that is not a tag falls back to the default', () => {
+  const preferences = defaultPreferences();
+  savePreferences({
+    ...preferences,
+    search: { ...preferences.search, language: 'en-' },
+  });
+  expect(loadPreferences().search.language).toBe('');
+
+  savePreferences({
+    ...preferences,
+    search: { ...preferences.search, language: 'de' },
+  });
+  expect(loadPreferences().search.language).toBe('de');
+});
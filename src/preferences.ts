@@ -0,0 +1,171 @@
+import {
+  DEFAULT_ISOCHRONE_BANDS,
+  IsochroneMetric,
+  IsochroneSettings,
+  normalizeBands,
+} from "./isochrones";
+import { RoadClass, ROAD_CLASSES } from "./routing";
+
+// User preferences, remembered in local storage separately from the routes
+
+export type Units = "metric" | "imperial";
+
+// The kinds of places the geocoding API can return
+export type PlaceType =
+  | "country"
+  | "region"
+  | "postcode"
+  | "district"
+  | "place"
+  | "locality"
+  | "neighborhood"
+  | "address"
+  | "poi";
+
+export const PLACE_TYPES: { value: PlaceType; label: string }[] = [
+  { value: "address", label: "Addresses" },
+  { value: "poi", label: "Points of interest" },
+  { value: "neighborhood", label: "Neighbourhoods" },
+  { value: "locality", label: "Localities" },
+  { value: "place", label: "Cities and towns" },
+  { value: "district", label: "Districts" },
+  { value: "postcode", label: "Postcodes" },
+  { value: "region", label: "Regions" },
+  { value: "country", label: "Countries" },
+];
+
+// How the address search is biased and filtered
+export interface SearchPreferences {
+  // Results near the map centre come first
+  nearMapCenter: boolean;
+  // Only results within the visible part of the map
+  withinMapView: boolean;
+  // ISO 3166 alpha-2 codes, e.g. "au". Empty for anywhere.
+  countries: string[];
+  // IETF language tag of the results, e.g. "en". Empty for the browser's language.
+  language: string;
+  // Empty for all types
+  placeTypes: PlaceType[];
+}
+
+export interface Preferences {
+  units: Units;
+  // Walking pace used for the duration of walking routes, in seconds per kilometre
+  walkingPace: number;
+  search: SearchPreferences;
+  // Bands of the reachable areas
+  isochrones: IsochroneSettings;
+  // Left out of routes where the profile allows it
+  avoidRoads: RoadClass[];
+}
+
+const PREFERENCES_KEY = "mapbox-react-ts:preferences";
+
+export const METRES_PER_MILE = 1609.344;
+
+export const defaultPreferences = (): Preferences => ({
+  units: "metric",
+  // 5 km/h
+  walkingPace: 720,
+  search: {
+    nearMapCenter: true,
+    withinMapView: false,
+    countries: [],
+    language: "",
+    placeTypes: [],
+  },
+  isochrones: { metric: "time", bands: DEFAULT_ISOCHRONE_BANDS.time },
+  avoidRoads: [],
+});
+
+// An IETF (BCP 47) language tag such as "en" or "pt-BR", or a comma separated list of them, as the geocoder takes.
+// Empty stands for the browser's language.
+export const isLanguage = (value: string) =>
+  value === "" ||
+  /^[a-z]{2,3}(-[a-z0-9]{2,8})*(,[a-z]{2,3}(-[a-z0-9]{2,8})*)*$/i.test(value);
+
+const isStringArray = (value: any): value is string[] =>
+  Array.isArray(value) && value.every((item) => typeof item === "string");
+
+const loadSearchPreferences = (
+  stored: any,
+  defaults: SearchPreferences
+): SearchPreferences => ({
+  nearMapCenter:
+    typeof stored?.nearMapCenter === "boolean"
+      ? stored.nearMapCenter
+      : defaults.nearMapCenter,
+  withinMapView:
+    typeof stored?.withinMapView === "boolean"
+      ? stored.withinMapView
+      : defaults.withinMapView,
+  countries: isStringArray(stored?.countries)
+    ? stored.countries
+    : defaults.countries,
+  language:
+    typeof stored?.language === "string" && isLanguage(stored.language)
+      ? stored.language
+      : defaults.language,
+  placeTypes: isStringArray(stored?.placeTypes)
+    ? stored.placeTypes.filter((type: string): type is PlaceType =>
+        PLACE_TYPES.some(({ value }) => value === type)
+      )
+    : defaults.placeTypes,
+});
+
+const loadIsochroneSettings = (
+  stored: any,
+  defaults: IsochroneSettings
+): IsochroneSettings => {
+  if (stored?.metric !== "time" && stored?.metric !== "distance") {
+    return defaults;
+  }
+  const metric: IsochroneMetric = stored.metric;
+  const bands = Array.isArray(stored.bands)
+    ? normalizeBands(stored.bands, metric)
+    : [];
+  return {
+    metric,
+    bands: bands.length > 0 ? bands : DEFAULT_ISOCHRONE_BANDS[metric],
+  };
+};
+
+// Unknown or invalid values fall back to their defaults one by one
+export const loadPreferences = (): Preferences => {
+  const defaults = defaultPreferences();
+  try {
+    const stored = JSON.parse(localStorage.getItem(PREFERENCES_KEY) || "{}");
+    return {
+      units:
+        stored?.units === "metric" || stored?.units === "imperial"
+          ? stored.units
+          : defaults.units,
+      walkingPace:
+        typeof stored?.walkingPace === "number" && stored.walkingPace > 0
+          ? stored.walkingPace
+          : defaults.walkingPace,
+      search: loadSearchPreferences(stored?.search, defaults.search),
+      isochrones: loadIsochroneSettings(
+        stored?.isochrones,
+        defaults.isochrones
+      ),
+      avoidRoads: isStringArray(stored?.avoidRoads)
+        ? stored.avoidRoads.filter(
+            (roadClass: string): roadClass is RoadClass =>
+              ROAD_CLASSES.some(({ value }) => value === roadClass)
+          )
+        : defaults.avoidRoads,
+    };
+  } catch (error) {
+    console.error("Error loading preferences:", error);
+    return defaults;
+  }
+};
+
+export const savePreferences = (preferences: Preferences) => {
+  try {
+    localStorage.setItem(PREFERENCES_KEY, JSON.stringify(preferences));
+  } catch (error) {
+    console.error("Error saving preferences:", error);
+  }
+};
@@ -0,0 +1,17 @@
+import { RoutingProfile } from "./interfaces";
+
+// Profiles in the order they are offered in the profile selectors
+export const ROUTING_PROFILES: { value: RoutingProfile; label: string }[] = [
+  { value: "walking", label: "Walking" },
+  { value: "cycling", label: "Cycling" },
+  { value: "driving", label: "Driving" },
+  { value: "driving-traffic", label: "Driving (traffic)" },
+];
+
+// Average speeds of the profiles, in metres per second, for the services that estimate travel times locally
+export const PROFILE_SPEEDS: Record<RoutingProfile, number> = {
+  walking: 5 / 3.6,
+  cycling: 15 / 3.6,
+  driving: 40 / 3.6,
+  "driving-traffic": 30 / 3.6,
+};
@@ -0,0 +1,75 @@
+import { Route } from './interfaces';
+import { toGeoJson, toGpx, toKml } from './routeExport';
+
+const route: Route = {
+  id: 1,
+  origin: { coordinates: [153.02, -27.47], address: 'Queen St & George St' },
+  stops: [{ coordinates: [153.025, -27.475], address: 'Stop <1>' }],
+  destination: { coordinates: [153.03, -27.48], address: 'Destination' },
+  viaPoints: [],
+  geometry: {
+    type: 'LineString',
+    coordinates: [
+      [153.02, -27.47],
+      [153.025, -27.475],
+      [153.03, -27.48],
+    ],
+  },
+  alternatives: [],
+  selectedAlternative: 0,
+  profile: 'walking',
+  name: 'Morning walk',
+  notes: '',
+  hidden: false,
+  color: '#e6194b',
+};
+
+const parse = (xml: string) =>
+  new DOMParser().parseFromString(xml, 'application/xml');
+
+test('exports GPX 1.1 with named waypoints before the track', () => {
+  const doc = parse(toGpx([route]));
+  const gpx = doc.documentElement;
+
+  expect(gpx.namespaceURI).toBe('http://www.topografix.com/GPX/1/1');
+  expect(gpx.getAttribute('version')).toBe('1.1');
+  expect(Array.from(gpx.children).map((child) => child.tagName)).toEqual([
+    'metadata',
+    'wpt',
+    'wpt',
+    'wpt',
+    'trk',
+  ]);
+  expect(gpx.querySelector('wpt > name')?.textContent).toBe(
+    'Queen St & George St'
+  );
+  expect(gpx.querySelectorAll('trkpt')).toHaveLength(3);
+  expect(gpx.querySelector('trkpt')?.getAttribute('lat')).toBe('-27.47');
+});
+
+test('exports a GeoJSON FeatureCollection with the line and its waypoints', () => {
+  const collection = JSON.parse(toGeoJson([route]));
+
+  expect(collection.type).toBe('FeatureCollection');
+  expect(
+    collection.features.map((feature: any) => feature.geometry.type)
+  ).toEqual(['LineString', 'Point', 'Point', 'Point']);
+  expect(collection.features[2].properties).toEqual({
+    routeId: 1,
+    role: 'Stop 1',
+    name: 'Stop <1>',
+  });
+});
+
+test('exports KML 2.2 with lng,lat coordinates and aabbggrr colors', () => {
+  const doc = parse(toKml([route]));
+
+  expect(doc.documentElement.namespaceURI).toBe(
+    'http://www.opengis.net/kml/2.2'
+  );
+  expect(doc.querySelector('LineStyle > color')?.textContent).toBe('ff4b19e6');
+  expect(doc.querySelector('LineString > coordinates')?.textContent).toBe(
+    '153.02,-27.47 153.025,-27.475 153.03,-27.48'
+  );
+  expect(doc.querySelectorAll('Placemark')).toHaveLength(4);
+});
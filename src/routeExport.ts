@@ -0,0 +1,268 @@
+import { Route, Waypoint } from "./interfaces";
+
+export type ExportFormat = "gpx" | "geojson" | "kml";
+
+export const EXPORT_FORMATS: {
+  value: ExportFormat;
+  label: string;
+  extension: string;
+  mimeType: string;
+}[] = [
+  {
+    value: "gpx",
+    label: "GPX",
+    extension: "gpx",
+    mimeType: "application/gpx+xml",
+  },
+  {
+    value: "geojson",
+    label: "GeoJSON",
+    extension: "geojson",
+    mimeType: "application/geo+json",
+  },
+  {
+    value: "kml",
+    label: "KML",
+    extension: "kml",
+    mimeType: "application/vnd.google-earth.kml+xml",
+  },
+];
+
+const APP_NAME = "mapbox-react-ts";
+
+// Origin, stops and destination with the role they play in the route, used to name the exported points
+const getNamedWaypoints = (route: Route) => [
+  { role: "Origin", waypoint: route.origin },
+  ...route.stops.map((stop, index) => ({
+    role: `Stop ${index + 1}`,
+    waypoint: stop,
+  })),
+  { role: "Destination", waypoint: route.destination },
+];
+
+// The route line as a list of [lng, lat] pairs. Mapbox returns a LineString, a MultiLineString is flattened.
+const getLineCoordinates = (route: Route): [number, number][] =>
+  route.geometry.type === "MultiLineString"
+    ? route.geometry.coordinates.flat()
+    : route.geometry.coordinates;
+
+// Builds an XML element with its attributes and children (text or other elements)
+const createElement = (
+  doc: XMLDocument,
+  name: string,
+  attributes: Record<string, string | number> = {},
+  children: (Node | string)[] = []
+) => {
+  const element = doc.createElementNS(doc.documentElement.namespaceURI, name);
+  Object.entries(attributes).forEach(([key, value]) =>
+    element.setAttribute(key, `${value}`)
+  );
+  children.forEach((child) =>
+    element.appendChild(
+      typeof child === "string" ? doc.createTextNode(child) : child
+    )
+  );
+  return element;
+};
+
+const serializeXml = (doc: XMLDocument) =>
+  `<?xml version="1.0" encoding="UTF-8"?>\n${new XMLSerializer().serializeToString(
+    doc
+  )}\n`;
+
+const getDocumentName = (routes: Route[]) =>
+  routes.length === 1 ? routes[0].name : "Routes";
+
+// GPX 1.1: named waypoints first, then one track per route (the schema requires this element order)
+export const toGpx = (routes: Route[]) => {
+  const doc = document.implementation.createDocument(
+    "http://www.topografix.com/GPX/1/1",
+    "gpx",
+    null
+  );
+  const gpx = doc.documentElement;
+  gpx.setAttribute("version", "1.1");
+  gpx.setAttribute("creator", APP_NAME);
+  gpx.setAttributeNS(
+    "http://www.w3.org/2001/XMLSchema-instance",
+    "xsi:schemaLocation",
+    "http://www.topografix.com/GPX/1/1 http://www.topografix.com/GPX/1/1/gpx.xsd"
+  );
+
+  gpx.appendChild(
+    createElement(doc, "metadata", {}, [
+      createElement(doc, "name", {}, [getDocumentName(routes)]),
+      createElement(doc, "time", {}, [new Date().toISOString()]),
+    ])
+  );
+
+  routes.forEach((route) =>
+    getNamedWaypoints(route).forEach(({ role, waypoint }) =>
+      gpx.appendChild(
+        createElement(
+          doc,
+          "wpt",
+          { lat: waypoint.coordinates[1], lon: waypoint.coordinates[0] },
+          [
+            createElement(doc, "name", {}, [waypoint.address]),
+            createElement(doc, "desc", {}, [`${route.name} - ${role}`]),
+            createElement(doc, "type", {}, [
+              role.startsWith("Stop") ? "Stop" : role,
+            ]),
+          ]
+        )
+      )
+    )
+  );
+
+  routes.forEach((route) =>
+    gpx.appendChild(
+      createElement(doc, "trk", {}, [
+        createElement(doc, "name", {}, [route.name]),
+        ...(route.notes ? [createElement(doc, "desc", {}, [route.notes])] : []),
+        createElement(doc, "type", {}, [route.profile]),
+        createElement(
+          doc,
+          "trkseg",
+          {},
+          getLineCoordinates(route).map(([lng, lat]) =>
+            createElement(doc, "trkpt", { lat, lon: lng })
+          )
+        ),
+      ])
+    )
+  );
+
+  return serializeXml(doc);
+};
+
+const toPointFeature = (route: Route, role: string, waypoint: Waypoint) => ({
+  type: "Feature",
+  geometry: { type: "Point", coordinates: waypoint.coordinates },
+  properties: { routeId: route.id, role, name: waypoint.address },
+});
+
+// A FeatureCollection (RFC 7946) with the route lines and their waypoints as points
+export const toGeoJson = (routes: Route[]) =>
+  JSON.stringify(
+    {
+      type: "FeatureCollection",
+      features: routes.flatMap((route) => [
+        {
+          type: "Feature",
+          geometry: route.geometry,
+          properties: {
+            routeId: route.id,
+            name: route.name,
+            notes: route.notes,
+            profile: route.profile,
+            color: route.color,
+          },
+        },
+        ...getNamedWaypoints(route).map(({ role, waypoint }) =>
+          toPointFeature(route, role, waypoint)
+        ),
+      ]),
+    },
+    null,
+    2
+  );
+
+// KML colors are aabbggrr, the route colors are #rrggbb
+const toKmlColor = (color: string) => {
+  const hex = /^#[0-9a-f]{6}$/i.test(color) ? color.slice(1) : "888888";
+  return `ff${hex.slice(4, 6)}${hex.slice(2, 4)}${hex.slice(0, 2)}`;
+};
+
+// KML 2.2: a folder per route with the line and its waypoints as placemarks
+export const toKml = (routes: Route[]) => {
+  const doc = document.implementation.createDocument(
+    "http://www.opengis.net/kml/2.2",
+    "kml",
+    null
+  );
+
+  const folders = routes.map((route) =>
+    createElement(doc, "Folder", {}, [
+      createElement(doc, "name", {}, [route.name]),
+      createElement(doc, "Style", { id: `route-${route.id}` }, [
+        createElement(doc, "LineStyle", {}, [
+          createElement(doc, "color", {}, [toKmlColor(route.color)]),
+          createElement(doc, "width", {}, ["4"]),
+        ]),
+      ]),
+      createElement(doc, "Placemark", {}, [
+        createElement(doc, "name", {}, [route.name]),
+        ...(route.notes
+          ? [createElement(doc, "description", {}, [route.notes])]
+          : []),
+        createElement(doc, "styleUrl", {}, [`#route-${route.id}`]),
+        createElement(doc, "LineString", {}, [
+          createElement(doc, "tessellate", {}, ["1"]),
+          createElement(doc, "coordinates", {}, [
+            getLineCoordinates(route)
+              .map(([lng, lat]) => `${lng},${lat}`)
+              .join(" "),
+          ]),
+        ]),
+      ]),
+      ...getNamedWaypoints(route).map(({ role, waypoint }) =>
+        createElement(doc, "Placemark", {}, [
+          createElement(doc, "name", {}, [waypoint.address]),
+          createElement(doc, "description", {}, [role]),
+          createElement(doc, "Point", {}, [
+            createElement(doc, "coordinates", {}, [
+              waypoint.coordinates.join(","),
+            ]),
+          ]),
+        ])
+      ),
+    ])
+  );
+
+  doc.documentElement.appendChild(
+    createElement(doc, "Document", {}, [
+      createElement(doc, "name", {}, [getDocumentName(routes)]),
+      ...folders,
+    ])
+  );
+
+  return serializeXml(doc);
+};
+
+const serializers: Record<ExportFormat, (routes: Route[]) => string> = {
+  gpx: toGpx,
+  geojson: toGeoJson,
+  kml: toKml,
+};
+
+// A safe file name from the route name, e.g. "Route 1" becomes "route-1.gpx"
+const toFileName = (name: string, extension: string) =>
+  `${
+    name
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-|-$/g, "") || "route"
+  }.${extension}`;
+
+// Serializes the routes and hands them to the browser as a file download
+export const exportRoutes = (
+  routes: Route[],
+  format: ExportFormat,
+  name: string
+) => {
+  const { extension, mimeType } = EXPORT_FORMATS.find(
+    ({ value }) => value === format
+  )!;
+  const blob = new Blob([serializers[format](routes)], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = toFileName(name, extension);
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  // Revoked once the download has started, some browsers cancel it when the URL goes in the same tick
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
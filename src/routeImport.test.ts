@@ -0,0 +1,118 @@
+import { Route } from './interfaces';
+import { toGpx } from './routeExport';
+import { parseRouteFile } from './routeImport';
+
+const route: Route = {
+  id: 1,
+  origin: { coordinates: [153.02, -27.47], address: 'Origin' },
+  stops: [{ coordinates: [153.025, -27.475], address: 'Halfway' }],
+  destination: { coordinates: [153.03, -27.48], address: 'Destination' },
+  viaPoints: [],
+  geometry: {
+    type: 'LineString',
+    coordinates: [
+      [153.02, -27.47],
+      [153.025, -27.475],
+      [153.03, -27.48],
+    ],
+  },
+  alternatives: [],
+  selectedAlternative: 0,
+  profile: 'walking',
+  name: 'Morning walk',
+  notes: '',
+  hidden: false,
+  color: '#e6194b',
+};
+
+test('reads back an exported GPX track with its stops', () => {
+  const [track] = parseRouteFile('walk.gpx', toGpx([route]));
+
+  expect(track.name).toBe('Morning walk');
+  expect(track.coordinates).toEqual(route.geometry.coordinates);
+  expect(track.waypoints).toEqual([
+    { name: 'Halfway', coordinates: [153.025, -27.475] },
+  ]);
+});
+
+test('reads GeoJSON lines and names unnamed ones after the file', () => {
+  const tracks = parseRouteFile(
+    'trip.geojson',
+    JSON.stringify({
+      type: 'FeatureCollection',
+      features: [
+        { type: 'Feature', geometry: route.geometry, properties: {} },
+        {
+          type: 'Feature',
+          geometry: {
+            type: 'MultiLineString',
+            coordinates: [route.geometry.coordinates],
+          },
+          properties: { name: 'Second' },
+        },
+      ],
+    })
+  );
+
+  expect(tracks.map((track) => track.name)).toEqual(['trip (1)', 'Second']);
+});
+
+test('reads KML line strings and drops the altitude', () => {
+  const [track] = parseRouteFile(
+    'walk.kml',
+    `<kml xmlns="http://www.opengis.net/kml/2.2"><Document><Placemark>
+      <name>Loop</name>
+      <LineString><coordinates>153.02,-27.47,10 153.03,-27.48,12</coordinates></LineString>
+    </Placemark></Document></kml>`
+  );
+
+  expect(track.coordinates).toEqual([
+    [153.02, -27.47],
+    [153.03, -27.48],
+  ]);
+});
+
+test('explains why a file cannot be imported', () => {
+  expect(() => parseRouteFile('broken.gpx', '<gpx><trk>')).toThrow(
+    'The file is not valid XML'
+  );
+  expect(() =>
+    parseRouteFile('points.geojson', '{"type":"Point","coordinates":[1,2]}')
+  ).toThrow('No track or line with at least two points was found');
+  expect(() => parseRouteFile('notes.txt', 'hello')).toThrow(
+    'Unsupported file type'
+  );
+});
+
+test('keeps evenly spaced stops, in order along the track, when there are too many', () => {
+  const coordinates = Array.from(
+    { length: 100 },
+    (_, i) => [153 + i * 0.001, -27.47] as [number, number]
+  );
+  const names = Array.from({ length: 40 }, (_, i) => `Stop ${i + 1}`);
+  const geoJson = {
+    type: 'FeatureCollection',
+    features: [
+      {
+        type: 'Feature',
+        properties: {},
+        geometry: { type: 'LineString', coordinates },
+      },
+      // Listed backwards
+      ...names
+        .map((name, i) => ({
+          type: 'Feature',
+          properties: { name },
+          geometry: { type: 'Point', coordinates: coordinates[i * 2 + 5] },
+        }))
+        .reverse(),
+    ],
+  };
+
+  const [track] = parseRouteFile('long.geojson', JSON.stringify(geoJson));
+  expect(track.waypoints).toHaveLength(23);
+  expect(track.waypoints[0].name).toBe('Stop 1');
+  expect(track.waypoints[22].name).toBe('Stop 40');
+  const longitudes = track.waypoints.map(({ coordinates }) => coordinates[0]);
+  expect(longitudes).toEqual([...longitudes].sort((a, b) => a - b));
+});
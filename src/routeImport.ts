@@ -0,0 +1,252 @@
+import { haversineDistance, nearestVertex } from "./geometry";
+import { sampleCoordinates } from "./routing";
+import { MAX_ROUTE_COORDINATES } from "./waypoints";
+
+// Parsing of route files (GPX, GeoJSON and KML) into tracks that can be saved as routes
+
+type Coordinates = [number, number];
+
+// A named point of the file, e.g. a GPX waypoint or a GeoJSON Point feature
+export interface ImportedWaypoint {
+  name: string;
+  coordinates: Coordinates;
+}
+
+export interface ImportedTrack {
+  name: string;
+  coordinates: Coordinates[];
+  // Named points along the track (not at its start or end), in the order they are passed.
+  // There are never more than a route can take as stops.
+  waypoints: ImportedWaypoint[];
+}
+
+// Named points further than this from a track are not part of it (in metres)
+const MAX_WAYPOINT_DISTANCE = 200;
+// Named points this close to the start or end of a track are the start or end themselves (in metres)
+const ENDPOINT_DISTANCE = 25;
+// The start and end of the track take two of the coordinates of a route, the rest are left for stops
+const MAX_TRACK_STOPS = MAX_ROUTE_COORDINATES - 2;
+
+interface ParsedFile {
+  tracks: { name: string; coordinates: Coordinates[] }[];
+  waypoints: ImportedWaypoint[];
+}
+
+export const IMPORT_FILE_TYPES = ".gpx,.geojson,.json,.kml";
+
+const isCoordinates = (value: any): value is Coordinates =>
+  Array.isArray(value) &&
+  value.length >= 2 &&
+  typeof value[0] === "number" &&
+  typeof value[1] === "number" &&
+  Math.abs(value[0]) <= 180 &&
+  Math.abs(value[1]) <= 90;
+
+// Elevation and anything after it is dropped, only [lng, lat] is kept
+const toCoordinates = (value: any[]): Coordinates[] =>
+  value.filter(isCoordinates).map(([lng, lat]) => [lng, lat]);
+
+const parseXml = (text: string) => {
+  const doc = new DOMParser().parseFromString(text, "application/xml");
+  if (doc.getElementsByTagName("parsererror").length > 0) {
+    throw new Error("The file is not valid XML");
+  }
+  return doc;
+};
+
+// Elements are looked up by local name so both namespaced and plain documents are read
+const getElements = (parent: Document | Element, localName: string) =>
+  Array.from(parent.getElementsByTagNameNS("*", localName));
+
+const getChildText = (parent: Element, localName: string) =>
+  Array.from(parent.children)
+    .find((child) => child.localName === localName)
+    ?.textContent?.trim() || "";
+
+const getPointCoordinates = (points: Element[]): Coordinates[] =>
+  toCoordinates(
+    points.map((point) => [
+      parseFloat(point.getAttribute("lon") || ""),
+      parseFloat(point.getAttribute("lat") || ""),
+    ])
+  );
+
+// Tracks (all segments joined), routes and waypoints of a GPX file
+const parseGpx = (text: string): ParsedFile => {
+  const doc = parseXml(text);
+  if (doc.documentElement.localName !== "gpx") {
+    throw new Error("The file is not a GPX document");
+  }
+
+  return {
+    tracks: [
+      ...getElements(doc, "trk").map((track) => ({
+        name: getChildText(track, "name"),
+        coordinates: getPointCoordinates(getElements(track, "trkpt")),
+      })),
+      ...getElements(doc, "rte").map((route) => ({
+        name: getChildText(route, "name"),
+        coordinates: getPointCoordinates(getElements(route, "rtept")),
+      })),
+    ],
+    waypoints: getElements(doc, "wpt").flatMap((waypoint) =>
+      getPointCoordinates([waypoint]).map((coordinates) => ({
+        name: getChildText(waypoint, "name"),
+        coordinates,
+      }))
+    ),
+  };
+};
+
+// LineString, MultiLineString and Point features of a GeoJSON file, or a bare geometry
+const parseGeoJson = (text: string): ParsedFile => {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    throw new Error("The file is not valid JSON");
+  }
+
+  const features: any[] =
+    data?.type === "FeatureCollection"
+      ? data.features || []
+      : data?.type === "Feature"
+      ? [data]
+      : [{ type: "Feature", geometry: data, properties: {} }];
+
+  const parsed: ParsedFile = { tracks: [], waypoints: [] };
+  features.forEach((feature) => {
+    const geometry = feature?.geometry;
+    const name = feature?.properties?.name || "";
+
+    if (geometry?.type === "LineString") {
+      parsed.tracks.push({
+        name,
+        coordinates: toCoordinates(geometry.coordinates || []),
+      });
+    } else if (geometry?.type === "MultiLineString") {
+      parsed.tracks.push({
+        name,
+        coordinates: toCoordinates((geometry.coordinates || []).flat()),
+      });
+    } else if (
+      geometry?.type === "Point" &&
+      isCoordinates(geometry.coordinates)
+    ) {
+      parsed.waypoints.push({
+        name,
+        coordinates: toCoordinates([geometry.coordinates])[0],
+      });
+    }
+  });
+  return parsed;
+};
+
+// The coordinates of KML geometries are "lng,lat[,alt]" tuples separated by whitespace
+const getKmlCoordinates = (geometry: Element) =>
+  toCoordinates(
+    (getElements(geometry, "coordinates")[0]?.textContent || "")
+      .trim()
+      .split(/\s+/)
+      .map((tuple) => tuple.split(",").map(parseFloat))
+  );
+
+// LineString and Point placemarks of a KML file
+const parseKml = (text: string): ParsedFile => {
+  const doc = parseXml(text);
+  if (doc.documentElement.localName !== "kml") {
+    throw new Error("The file is not a KML document");
+  }
+
+  const placemarks = getElements(doc, "Placemark");
+  return {
+    tracks: placemarks.flatMap((placemark) =>
+      getElements(placemark, "LineString").map((lineString) => ({
+        name: getChildText(placemark, "name"),
+        coordinates: getKmlCoordinates(lineString),
+      }))
+    ),
+    waypoints: placemarks.flatMap((placemark) =>
+      getElements(placemark, "Point").flatMap((point) =>
+        getKmlCoordinates(point).map((coordinates) => ({
+          name: getChildText(placemark, "name"),
+          coordinates,
+        }))
+      )
+    ),
+  };
+};
+
+// Named points in between the start and end of a track, ordered along it.
+// When there are more than a route can take, evenly spaced ones are kept.
+const getTrackWaypoints = (
+  coordinates: Coordinates[],
+  waypoints: ImportedWaypoint[]
+) => {
+  const trackWaypoints = waypoints
+    .filter((waypoint) => waypoint.name)
+    .map((waypoint) => ({
+      waypoint,
+      nearest: nearestVertex(coordinates, waypoint.coordinates),
+      fromStart: haversineDistance(coordinates[0], waypoint.coordinates),
+      fromEnd: haversineDistance(
+        coordinates[coordinates.length - 1],
+        waypoint.coordinates
+      ),
+    }))
+    .filter(
+      ({ nearest, fromStart, fromEnd }) =>
+        nearest.distance <= MAX_WAYPOINT_DISTANCE &&
+        fromStart > ENDPOINT_DISTANCE &&
+        fromEnd > ENDPOINT_DISTANCE
+    )
+    .sort((a, b) => a.nearest.index - b.nearest.index)
+    .map(({ waypoint }) => waypoint);
+  return sampleCoordinates(trackWaypoints, MAX_TRACK_STOPS);
+};
+
+// Parses a route file by its extension (or its content when the extension is unknown).
+// Throws an error with a readable message when the file can't be used.
+export const parseRouteFile = (
+  fileName: string,
+  text: string
+): ImportedTrack[] => {
+  const extension = fileName.split(".").pop()?.toLowerCase();
+  const content = text.trimStart();
+
+  let parsed: ParsedFile;
+  if (
+    extension === "gpx" ||
+    (extension !== "kml" && /<gpx[\s>]/.test(content))
+  ) {
+    parsed = parseGpx(text);
+  } else if (extension === "kml" || /<kml[\s>]/.test(content)) {
+    parsed = parseKml(text);
+  } else if (
+    extension === "geojson" ||
+    extension === "json" ||
+    content.startsWith("{")
+  ) {
+    parsed = parseGeoJson(text);
+  } else {
+    throw new Error("Unsupported file type, expected GPX, GeoJSON or KML");
+  }
+
+  // Unnamed tracks are named after the file, numbered when there are several
+  const baseName = fileName.replace(/\.[^.]+$/, "");
+  const usableTracks = parsed.tracks
+    .filter((track) => track.coordinates.length >= 2)
+    .map((track, index, all) => ({
+      ...track,
+      name:
+        track.name ||
+        (all.length > 1 ? `${baseName} (${index + 1})` : baseName),
+      waypoints: getTrackWaypoints(track.coordinates, parsed.waypoints),
+    }));
+
+  if (usableTracks.length === 0) {
+    throw new Error("No track or line with at least two points was found");
+  }
+
+  return usableTracks;
+};
@@ -0,0 +1,128 @@
+import { CurrentRoute, RouteAlternative } from './interfaces';
+import {
+  createCurrentRoute,
+  getAlternativeDuration,
+  getRouteDistance,
+  getRouteDuration,
+  hasUnsavedChanges,
+  toCurrentRoute,
+  toSavedRouteChanges,
+} from './routes';
+import { loadStoredState, saveStoredState } from './storage';
+
+const line = (lat: number) => ({
+  type: 'LineString',
+  coordinates: [
+    [153.02, lat],
+    [153.03, lat],
+  ],
+});
+
+const alternative = (lat: number, distance: number): RouteAlternative => ({
+  geometry: line(lat),
+  distance,
+  duration: distance,
+  steps: [],
+});
+
+// The second alternative was picked over the recommended one
+const currentRoute: CurrentRoute = {
+  ...createCurrentRoute(1, 'driving'),
+  origin: { coordinates: [153.02, -27.47], address: 'Origin' },
+  destination: { coordinates: [153.03, -27.47], address: 'Destination' },
+  alternatives: [alternative(-27.47, 1000), alternative(-27.48, 1400)],
+  selectedAlternative: 1,
+  geometry: line(-27.48),
+};
+
+beforeEach(() => {
+  localStorage.clear();
+});
+
+test('an incomplete route has nothing to save', () => {
+  expect(toSavedRouteChanges(createCurrentRoute(1, 'driving'))).toBeNull();
+  expect(toSavedRouteChanges({ ...currentRoute, geometry: null })).toBeNull();
+});
+
+test('the selected alternative survives a save, a reload and editing', () => {
+  const changes = toSavedRouteChanges(currentRoute)!;
+  saveStoredState({
+    routes: [
+      {
+        id: 1,
+        ...changes,
+        name: 'Route 1',
+        notes: '',
+        hidden: false,
+        color: '#e6194b',
+      },
+    ],
+    currentRoute: createCurrentRoute(2, 'driving'),
+    routeCounter: 2,
+  });
+
+  const [saved] = loadStoredState().routes;
+  expect(saved.selectedAlternative).toBe(1);
+  expect(saved.geometry).toEqual(line(-27.48));
+  expect(getRouteDistance(saved)).toBe(1400);
+
+  const edited = toCurrentRoute(saved);
+  expect(edited.selectedAlternative).toBe(1);
+  expect(edited.geometry).toEqual(currentRoute.geometry);
+  expect(edited.alternatives).toEqual(currentRoute.alternatives);
+});
+
+test('a saved route being edited only has unsaved changes once it differs', () => {
+  const saved = {
+    id: 1,
+    ...toSavedRouteChanges(currentRoute)!,
+    name: 'Route 1',
+    notes: '',
+    hidden: false,
+    color: '#e6194b',
+  };
+  const edited = toCurrentRoute(saved);
+
+  expect(hasUnsavedChanges(edited, [saved])).toBe(false);
+  // Looked up again, the address alone is no change
+  expect(
+    hasUnsavedChanges(
+      { ...edited, origin: { ...edited.origin!, address: 'Elsewhere' } },
+      [saved]
+    )
+  ).toBe(false);
+  expect(
+    hasUnsavedChanges({ ...edited, selectedAlternative: 0 }, [saved])
+  ).toBe(true);
+  expect(hasUnsavedChanges({ ...edited, profile: 'walking' }, [saved])).toBe(
+    true
+  );
+});
+
+test('a new route has unsaved changes once it has a waypoint', () => {
+  expect(hasUnsavedChanges(createCurrentRoute(2, 'driving'), [])).toBe(false);
+  expect(hasUnsavedChanges({ ...currentRoute, id: 2 }, [])).toBe(true);
+});
+
+test('walking is timed with the pace, the other profiles by the routing backend', () => {
+  const fast = alternative(-27.47, 2000);
+  // 12 min/km
+  expect(getAlternativeDuration(fast, 'walking', 720)).toBe(1440);
+  expect(getAlternativeDuration(fast, 'cycling', 720)).toBe(2000);
+
+  expect(getRouteDuration({ ...currentRoute, profile: 'walking' }, 600)).toBe(
+    840
+  );
+  expect(getRouteDuration(currentRoute, 600)).toBe(1400);
+});
+
+test('a route without alternatives is measured along its line', () => {
+  const track = { ...currentRoute, alternatives: [], selectedAlternative: 0 };
+
+  expect(getRouteDistance(track)).toBeCloseTo(986.5, 0);
+  // Without an alternative only walking has a duration to go by
+  expect(getRouteDuration(track, 720)).toBeNull();
+  expect(getRouteDuration({ ...track, profile: 'walking' }, 720)).toBeCloseTo(
+    (getRouteDistance(track) / 1000) * 720
+  );
+});
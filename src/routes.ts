@@ -0,0 +1,130 @@
+import { lineDistance } from "./geometry";
+import {
+  CurrentRoute,
+  Route,
+  RouteAlternative,
+  RoutingProfile,
+} from "./interfaces";
+
+// Saved routes get the next color of this palette by default, it can be changed per route
+export const ROUTE_COLORS = [
+  "#e6194b",
+  "#3cb44b",
+  "#f58231",
+  "#911eb4",
+  "#008080",
+  "#9a6324",
+  "#800000",
+  "#000075",
+];
+
+export const getDefaultRouteColor = (id: number) =>
+  ROUTE_COLORS[(id - 1 + ROUTE_COLORS.length) % ROUTE_COLORS.length];
+
+// An empty route to start planning with
+export const createCurrentRoute = (
+  id: number,
+  profile: RoutingProfile
+): CurrentRoute => ({
+  id,
+  origin: null,
+  stops: [],
+  destination: null,
+  viaPoints: [],
+  geometry: null,
+  alternatives: [],
+  selectedAlternative: 0,
+  profile,
+});
+
+// Everything the Directions request depends on, joined into a string.
+// Address updates don't change it, so they don't trigger a re-fetch.
+export const getRouteRequestKey = (route: CurrentRoute) =>
+  [
+    route.origin?.coordinates.join(","),
+    ...route.stops.map((stop) => stop.coordinates.join(",")),
+    route.destination?.coordinates.join(","),
+    ...route.viaPoints.map(
+      (viaPoint) => `${viaPoint.leg}:${viaPoint.coordinates.join(",")}`
+    ),
+    route.profile,
+  ].join(";");
+
+// What saving the current route writes into the saved route, null until the route is complete.
+// The alternatives are kept with the selected one, so the chosen route is still the one drawn after a reload.
+export const toSavedRouteChanges = (route: CurrentRoute) =>
+  route.origin && route.destination && route.geometry
+    ? {
+        origin: route.origin,
+        stops: route.stops,
+        destination: route.destination,
+        viaPoints: route.viaPoints,
+        geometry: route.geometry,
+        alternatives: route.alternatives,
+        selectedAlternative: route.selectedAlternative,
+        profile: route.profile,
+      }
+    : null;
+
+// Loads a saved route back into the current route for editing, with its markers and via points
+export const toCurrentRoute = (route: Route): CurrentRoute => ({
+  id: route.id,
+  origin: route.origin,
+  stops: route.stops,
+  destination: route.destination,
+  viaPoints: route.viaPoints,
+  geometry: route.geometry,
+  alternatives: route.alternatives,
+  selectedAlternative: route.selectedAlternative,
+  profile: route.profile,
+});
+
+// Whether loading another route would lose work: a saved route being edited that was changed, or a new route with any waypoint
+export const hasUnsavedChanges = (
+  currentRoute: CurrentRoute,
+  routes: Route[]
+) => {
+  const saved = routes.find((route) => route.id === currentRoute.id);
+  if (!saved) return !!(currentRoute.origin || currentRoute.destination);
+
+  return (
+    getRouteRequestKey(toCurrentRoute(saved)) !==
+      getRouteRequestKey(currentRoute) ||
+    saved.selectedAlternative !== currentRoute.selectedAlternative
+  );
+};
+
+// Distance of the chosen alternative, or the measured length of the line for routes without one (e.g. imported tracks)
+export const getRouteDistance = (route: Route | CurrentRoute) => {
+  const alternative = route.alternatives[route.selectedAlternative];
+  if (alternative) return alternative.distance;
+
+  return route.geometry?.type === "LineString"
+    ? lineDistance(route.geometry.coordinates)
+    : 0;
+};
+
+// Walking is timed with the user's pace, the other profiles with the duration from the Directions API
+export const getAlternativeDuration = (
+  alternative: RouteAlternative,
+  profile: RoutingProfile,
+  walkingPace: number
+) =>
+  profile === "walking"
+    ? (alternative.distance / 1000) * walkingPace
+    : alternative.duration;
+
+// Null when the route has no duration to go by (e.g. an imported track that was not matched, unless walking)
+export const getRouteDuration = (
+  route: Route | CurrentRoute,
+  walkingPace: number
+) => {
+  if (route.profile === "walking") {
+    return (getRouteDistance(route) / 1000) * walkingPace;
+  }
+
+  const alternative = route.alternatives[route.selectedAlternative];
+  return alternative
+    ? getAlternativeDuration(alternative, route.profile, walkingPace)
+    : null;
+};
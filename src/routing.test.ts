@@ -0,0 +1,282 @@
+import { createFixtureRoutingService } from './fixtureRouting';
+import { Waypoint } from './interfaces';
+import { createMapboxRoutingService } from './mapboxRouting';
+import { createOsrmRoutingService, describeOsrmStep } from './osrmRouting';
+import { hasSingleLeg, toRouteAlternatives } from './routing';
+
+const point = (lng: number, lat: number): Waypoint => ({
+  coordinates: [lng, lat],
+  address: `${lng},${lat}`,
+});
+
+const route = {
+  origin: point(153.02, -27.47),
+  stops: [point(153.03, -27.47)],
+  destination: point(153.03, -27.48),
+  viaPoints: [],
+};
+
+test('the fixture backend routes in straight lines, one step per leg', async () => {
+  const service = createFixtureRoutingService();
+  const [alternative] = await service.getDirections(route, 'walking');
+
+  expect(alternative.geometry.coordinates).toEqual([
+    [153.02, -27.47],
+    [153.03, -27.47],
+    [153.03, -27.48],
+  ]);
+  expect(alternative.steps.map((step) => step.instruction)).toEqual([
+    'Head to stop 1',
+    'Head to the destination',
+    'You have arrived at your destination',
+  ]);
+  // 5 km/h
+  expect(alternative.duration).toBeCloseTo(alternative.distance / (5 / 3.6));
+  expect(await service.getDirections(route, 'walking')).toEqual([alternative]);
+});
+
+test('the fixture backend times the travel matrix with its speeds', async () => {
+  const service = createFixtureRoutingService();
+  const { durations, distances } = await service.getMatrix(
+    [
+      [153.02, -27.47],
+      [153.03, -27.47],
+    ],
+    'cycling'
+  );
+
+  expect(distances[0][0]).toBe(0);
+  expect(distances[0][1]).toBeCloseTo(distances[1][0]);
+  // 15 km/h
+  expect(durations[0][1]).toBeCloseTo(distances[0][1] / (15 / 3.6));
+});
+
+test('keeps the route, recommended first, and the steps of every leg', () => {
+  const step = (instruction: string) => ({
+    maneuver: { instruction, location: [1, 2] },
+    geometry: { type: 'LineString', coordinates: [] },
+    distance: 100,
+    duration: 60,
+    name: 'Queen Street',
+  });
+  const alternatives = toRouteAlternatives([
+    {
+      geometry: { type: 'LineString', coordinates: [[1, 2]] },
+      distance: 1200,
+      duration: 900,
+      weight: 950,
+      legs: [{ steps: [step('Head north')] }, { steps: [step('Arrive')] }],
+    },
+    { geometry: null, distance: 1500, duration: 1000 },
+  ]);
+
+  expect(alternatives).toEqual([
+    {
+      geometry: { type: 'LineString', coordinates: [[1, 2]] },
+      distance: 1200,
+      duration: 900,
+      steps: [
+        {
+          instruction: 'Head north',
+          location: [1, 2],
+          geometry: { type: 'LineString', coordinates: [] },
+          distance: 100,
+          duration: 60,
+        },
+        {
+          instruction: 'Arrive',
+          location: [1, 2],
+          geometry: { type: 'LineString', coordinates: [] },
+          distance: 100,
+          duration: 60,
+        },
+      ],
+    },
+    { geometry: null, distance: 1500, duration: 1000, steps: [] },
+  ]);
+});
+
+test('alternatives are only looked for between two points', () => {
+  expect(hasSingleLeg({ ...route, stops: [] })).toBe(true);
+  expect(hasSingleLeg(route)).toBe(false);
+  expect(
+    hasSingleLeg({
+      ...route,
+      stops: [],
+      viaPoints: [{ coordinates: [153.025, -27.475], leg: 0 }],
+    })
+  ).toBe(false);
+  expect(createFixtureRoutingService().canFindAlternatives(route)).toBe(false);
+});
+
+describe('the OSRM backend', () => {
+  const originalFetch = global.fetch;
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    global.fetch = originalFetch;
+  });
+
+  test('maps profiles and describes steps without text instructions', async () => {
+    const fetchMock = jest.fn().mockResolvedValue({
+      ok: true,
+      status: 200,
+      json: async () => ({
+        code: 'Ok',
+        routes: [
+          {
+            geometry: { type: 'LineString', coordinates: [] },
+            distance: 1200,
+            duration: 860,
+            legs: [
+              {
+                steps: [
+                  {
+                    name: 'Queen Street',
+                    maneuver: {
+                      type: 'turn',
+                      modifier: 'left',
+                      location: [1, 2],
+                    },
+                    geometry: { type: 'LineString', coordinates: [] },
+                    distance: 100,
+                    duration: 70,
+                  },
+                ],
+              },
+            ],
+          },
+        ],
+      }),
+    });
+    global.fetch = fetchMock;
+
+    const service = createOsrmRoutingService('http://localhost:5000/');
+    const [alternative] = await service.getDirections(route, 'cycling');
+
+    expect(fetchMock.mock.calls[0][0]).toMatch(
+      /^http:\/\/localhost:5000\/route\/v1\/bike\/153\.02,-27\.47;153\.03,-27\.47;153\.03,-27\.48\?/
+    );
+    expect(alternative.steps[0].instruction).toBe(
+      'Turn left onto Queen Street'
+    );
+  });
+
+  test('excludes only the road classes the profile supports', async () => {
+    const fetchMock = jest.fn().mockResolvedValue({
+      ok: true,
+      status: 200,
+      json: async () => ({
+        code: 'Ok',
+        routes: [
+          {
+            geometry: { type: 'LineString', coordinates: [] },
+            distance: 1200,
+            duration: 90,
+            legs: [],
+          },
+        ],
+      }),
+    });
+    global.fetch = fetchMock;
+
+    const service = createOsrmRoutingService('http://localhost:5000');
+    await service.getDirections(route, 'driving', {
+      exclude: ['toll', 'ferry'],
+    });
+    await service.getDirections(route, 'cycling', { exclude: ['ferry'] });
+
+    expect(fetchMock.mock.calls[0][0]).toMatch(/&exclude=toll,ferry$/);
+    expect(fetchMock.mock.calls[1][0]).not.toMatch(/exclude/);
+  });
+
+  test('passes the signal on, so that a replaced request can be cancelled', async () => {
+    const fetchMock = jest
+      .fn()
+      .mockRejectedValue(new DOMException('Aborted', 'AbortError'));
+    global.fetch = fetchMock;
+    const controller = new AbortController();
+
+    const service = createOsrmRoutingService('http://localhost:5000');
+    await expect(
+      service.getDirections(route, 'driving', { signal: controller.signal })
+    ).rejects.toHaveProperty('name', 'AbortError');
+    expect(fetchMock.mock.calls[0][1].signal).toBe(controller.signal);
+  });
+
+  test('reports why no route was found', async () => {
+    global.fetch = jest.fn().mockResolvedValue({
+      ok: false,
+      status: 400,
+      json: async () => ({
+        code: 'NoSegment',
+        message: 'Could not find a matching segment for any coordinate.',
+      }),
+    });
+
+    const service = createOsrmRoutingService('http://localhost:5000');
+    await expect(
+      service.getDirections(route, 'driving')
+    ).rejects.toHaveProperty('code', 'NoSegment');
+  });
+
+  test('describes a turn without a direction or a road name', () => {
+    expect(describeOsrmStep({ maneuver: { type: 'turn' }, name: '' })).toBe(
+      'Turn'
+    );
+    expect(
+      describeOsrmStep({ maneuver: { type: 'end of road' }, name: 'Main St' })
+    ).toBe('Turn onto Main St');
+  });
+
+  test('keeps the point when it cannot be snapped', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    global.fetch = jest.fn().mockRejectedValue(new Error('offline'));
+
+    const service = createOsrmRoutingService('http://localhost:5000');
+    expect(await service.snapPoint([1, 2], 'walking')).toEqual([1, 2]);
+  });
+});
+
+describe('the Mapbox backend', () => {
+  const originalFetch = global.fetch;
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    global.fetch = originalFetch;
+  });
+
+  test('keeps driving routes off the avoided points, along with the road classes', async () => {
+    const fetchMock = jest.fn().mockResolvedValue({
+      ok: true,
+      status: 200,
+      json: async () => ({
+        code: 'Ok',
+        routes: [
+          {
+            geometry: { type: 'LineString', coordinates: [] },
+            distance: 1200,
+            duration: 90,
+            legs: [],
+          },
+        ],
+      }),
+    });
+    global.fetch = fetchMock;
+    const options = {
+      exclude: ['toll' as const],
+      avoidPoints: [[153.025, -27.475] as [number, number]],
+    };
+
+    const service = createMapboxRoutingService('token');
+    await service.getDirections(route, 'driving', options);
+    await service.getDirections(route, 'walking', options);
+
+    expect(fetchMock.mock.calls[0][0]).toContain(
+      '&exclude=toll,point(153.02500%20-27.47500)&'
+    );
+    expect(fetchMock.mock.calls[1][0]).not.toMatch(/exclude/);
+    expect(service.canAvoidPoints('driving-traffic')).toBe(true);
+    expect(service.canAvoidPoints('cycling')).toBe(false);
+  });
+});
@@ -0,0 +1,159 @@
+import { RouteAlternative, RouteStep, RoutingProfile } from "./interfaces";
+import { ServiceError } from "./serviceErrors";
+import { getRoutePoints } from "./viaPoints";
+import { WaypointRoute } from "./waypoints";
+
+// Travel durations (in seconds) and distances (in metres) from each point (row) to each point (column).
+// Pairs without a route are Infinity.
+export interface TravelMatrix {
+  durations: number[][];
+  distances: number[][];
+}
+
+// Kinds of roads a route can be asked to leave out
+export type RoadClass = "toll" | "motorway" | "ferry";
+
+export const ROAD_CLASSES: { value: RoadClass; label: string }[] = [
+  { value: "toll", label: "Tolls" },
+  { value: "motorway", label: "Motorways" },
+  { value: "ferry", label: "Ferries" },
+];
+
+export interface DirectionsOptions {
+  // Road classes to leave out, those the backend doesn't support for the profile are ignored
+  exclude?: RoadClass[];
+  // Points for the route to stay off, ignored where the backend can't (see canAvoidPoints)
+  avoidPoints?: [number, number][];
+  // Cancels the request, which then rejects with an AbortError
+  signal?: AbortSignal;
+}
+
+// A routing backend: directions, travel matrices, snapping and map matching.
+// Directions and matrices reject with a ServiceError so that the reason (e.g. no route) can be shown.
+// Snapping and matching are best effort, failures are logged and reported as null (or the unsnapped point).
+export interface RoutingService {
+  // The route through all waypoints and via points of the given route.
+  // The recommended route comes first followed by the alternatives.
+  getDirections(
+    route: WaypointRoute,
+    profile: RoutingProfile,
+    options?: DirectionsOptions
+  ): Promise<RouteAlternative[]>;
+  // The road classes the profile can leave out
+  getExcludableRoads(profile: RoutingProfile): RoadClass[];
+  // Whether directions for the profile keep off the avoided points
+  canAvoidPoints(profile: RoutingProfile): boolean;
+  // Whether directions for the route can come with alternatives
+  canFindAlternatives(route: WaypointRoute): boolean;
+  // Travel durations and distances between all the points, for working out the best order to visit them
+  getMatrix(
+    coordinates: [number, number][],
+    profile: RoutingProfile
+  ): Promise<TravelMatrix>;
+  // Snaps a point to the road network, the point itself is returned when it can't be snapped
+  snapPoint(
+    point: [number, number],
+    profile: RoutingProfile
+  ): Promise<[number, number]>;
+  // Snaps a recorded track (e.g. an imported file) to the road network
+  matchTrack(
+    coordinates: [number, number][],
+    profile: RoutingProfile
+  ): Promise<RouteAlternative | null>;
+}
+
+// Coordinates and waypoint indices in the format of OSRM style APIs (Mapbox and OSRM itself)
+export const toRequestCoordinates = (route: WaypointRoute) => {
+  const routePoints = getRoutePoints(route);
+
+  return {
+    coordinates: routePoints
+      .map(({ coordinates }) => `${coordinates[0]},${coordinates[1]}`)
+      .join(";"),
+    // Via points only reshape the route, so only the actual waypoints are listed in 'waypoints' (they split the legs)
+    waypoints: routePoints
+      .map((point, index) => (point.viaIndex === null ? index : null))
+      .filter((index) => index !== null)
+      .join(";"),
+  };
+};
+
+// OSRM style APIs (Mapbox and OSRM itself) only look for alternatives between two coordinates,
+//    so there are none once the route has a stop or a via point
+export const hasSingleLeg = (route: WaypointRoute) =>
+  getRoutePoints(route).length === 2;
+
+// The 'exclude' parameter of OSRM style APIs (Mapbox and OSRM itself), empty when nothing supported is excluded.
+// Mapbox also takes points in it, as point(<lng> <lat>).
+export const toExcludeParam = (
+  exclude: RoadClass[] = [],
+  excludable: RoadClass[],
+  points: [number, number][] = []
+) => {
+  const values = [
+    ...exclude.filter((roadClass) => excludable.includes(roadClass)),
+    ...points.map(
+      ([lng, lat]) =>
+        `point(${encodeURIComponent(`${lng.toFixed(5)} ${lat.toFixed(5)}`)})`
+    ),
+  ];
+  return values.length > 0 ? `&exclude=${values.join(",")}` : "";
+};
+
+// Evenly spaced coordinates of a track, keeping the first and the last, for APIs that limit the number of coordinates
+export const sampleCoordinates = <T>(coordinates: T[], maxCount: number) => {
+  const step = Math.max(1, (coordinates.length - 1) / (maxCount - 1));
+  return Array.from(
+    { length: Math.min(coordinates.length, maxCount) },
+    (_, i) => coordinates[Math.round(i * step)]
+  );
+};
+
+// The matrix of an OSRM style table response, where pairs without a route are null
+export const toTravelMatrix = (data: any): TravelMatrix => {
+  const toRows = (rows: (number | null)[][]) =>
+    rows.map((row) => row.map((value) => value ?? Infinity));
+
+  if (!Array.isArray(data.durations) || !Array.isArray(data.distances)) {
+    throw new ServiceError("InvalidInput", "The travel matrix is incomplete.");
+  }
+  return {
+    durations: toRows(data.durations),
+    distances: toRows(data.distances),
+  };
+};
+
+// Keeps the parts of each route in an OSRM style response that the app uses.
+// Step instructions are taken from the response, or described from the maneuver when the API has no text instructions.
+export const toRouteAlternatives = (
+  routes: any[],
+  describeStep: (step: any) => string = (step) => step.maneuver.instruction
+): RouteAlternative[] =>
+  routes.map((route) => ({
+    geometry: route.geometry,
+    distance: route.distance,
+    duration: route.duration,
+    steps: (route.legs || []).flatMap((leg: any) =>
+      (leg.steps || []).map(
+        (step: any): RouteStep => ({
+          instruction: describeStep(step),
+          location: step.maneuver.location,
+          geometry: step.geometry,
+          distance: step.distance,
+          duration: step.duration,
+        })
+      )
+    ),
+  }));
+
+// A track with gaps is matched in several pieces, they are joined into one line
+export const toMatchedTrack = (matchings: any[]): RouteAlternative => ({
+  geometry: {
+    type: "LineString",
+    coordinates: matchings.flatMap((matching) => matching.geometry.coordinates),
+  },
+  distance: matchings.reduce((sum, matching) => sum + matching.distance, 0),
+  duration: matchings.reduce((sum, matching) => sum + matching.duration, 0),
+  // Imported tracks have no instructions
+  steps: [],
+});
@@ -0,0 +1,37 @@
+import { createFixtureRoutingService } from "./fixtureRouting";
+import { createMapboxRoutingService } from "./mapboxRouting";
+import { createOsrmRoutingService } from "./osrmRouting";
+import { RoutingService } from "./routing";
+
+export type RoutingBackend = "mapbox" | "osrm" | "fixture";
+
+export interface RoutingConfig {
+  backend: RoutingBackend;
+  mapboxAccessToken: string;
+  // Base URL of the OSRM compatible server, e.g. http://localhost:5000
+  osrmUrl: string;
+}
+
+export const createRoutingService = (config: RoutingConfig): RoutingService => {
+  switch (config.backend) {
+    case "osrm":
+      return createOsrmRoutingService(config.osrmUrl);
+    case "fixture":
+      return createFixtureRoutingService();
+    default:
+      return createMapboxRoutingService(config.mapboxAccessToken);
+  }
+};
+
+// The backend is picked with REACT_APP_ROUTING_BACKEND, Mapbox being the default
+export const routingConfig: RoutingConfig = {
+  backend: (["mapbox", "osrm", "fixture"].includes(
+    process.env.REACT_APP_ROUTING_BACKEND || ""
+  )
+    ? process.env.REACT_APP_ROUTING_BACKEND
+    : "mapbox") as RoutingBackend,
+  mapboxAccessToken: process.env.REACT_APP_MAPBOX_API_TOKEN || "",
+  osrmUrl: process.env.REACT_APP_OSRM_URL || "http://localhost:5000",
+};
+
+export const routingService = createRoutingService(routingConfig);
@@ -0,0 +1,49 @@
+import { Route } from './interfaces';
+import { toSavedRouteEndpoints, toSavedRouteLines } from './savedRouteLayers';
+
+const route = (id: number, hidden = false): Route => ({
+  id,
+  origin: { coordinates: [153.02, -27.47], address: 'Origin' },
+  stops: [{ coordinates: [153.025, -27.475], address: 'Stop' }],
+  destination: { coordinates: [153.03, -27.48], address: 'Destination' },
+  viaPoints: [],
+  geometry: {
+    type: 'LineString',
+    coordinates: [
+      [153.02, -27.47],
+      [153.03, -27.48],
+    ],
+  },
+  alternatives: [],
+  selectedAlternative: 0,
+  profile: 'walking',
+  name: `Route ${id}`,
+  notes: '',
+  hidden,
+  color: '#e6194b',
+});
+
+test('draws a line per saved route, leaving out the one being edited', () => {
+  const { features } = toSavedRouteLines(
+    [route(1), route(2, true), route(3)],
+    3
+  );
+
+  expect(features.map((feature) => feature.id)).toEqual([1, 2]);
+  expect(features[1].properties).toEqual({
+    id: 2,
+    color: '#e6194b',
+    hidden: true,
+  });
+});
+
+test('marks the origin, stops and destination of the visible routes', () => {
+  const { features } = toSavedRouteEndpoints([route(1), route(2, true)], 0);
+
+  expect(features.map((feature) => feature.properties.label)).toEqual([
+    'S-1',
+    '1',
+    'E-1',
+  ]);
+  expect(features[2].geometry.coordinates).toEqual([153.03, -27.48]);
+});
@@ -0,0 +1,50 @@
+import { Route } from "./interfaces";
+
+// All saved routes are drawn from two sources, whatever their number: one for the lines and one for the
+//    origin, stop and destination markers. Styling comes from the properties of each feature.
+export const SAVED_ROUTES_SOURCE = "saved-routes";
+export const SAVED_ROUTE_ENDPOINTS_SOURCE = "saved-route-endpoints";
+
+// The route being edited is drawn as the current route, so it's left out
+const getDrawnRoutes = (routes: Route[], currentRouteId: number) =>
+  routes.filter((route) => route.id !== currentRouteId);
+
+// One line per saved route. The route ID is the feature ID, for the hover state.
+// Hidden routes are kept with the flag, the line layer filters them out.
+export const toSavedRouteLines = (routes: Route[], currentRouteId: number) => ({
+  type: "FeatureCollection" as const,
+  features: getDrawnRoutes(routes, currentRouteId).map((route) => ({
+    type: "Feature" as const,
+    id: route.id,
+    properties: { id: route.id, color: route.color, hidden: route.hidden },
+    geometry: route.geometry,
+  })),
+});
+
+// The markers of the visible saved routes, labelled like the markers of the current route (S-1, 1, 2, E-1).
+// Hidden routes are left out here rather than filtered, so that clusters don't count them.
+export const toSavedRouteEndpoints = (
+  routes: Route[],
+  currentRouteId: number
+) => ({
+  type: "FeatureCollection" as const,
+  features: getDrawnRoutes(routes, currentRouteId)
+    .filter((route) => !route.hidden)
+    .flatMap((route) =>
+      [
+        { label: `S-${route.id}`, waypoint: route.origin },
+        ...route.stops.map((stop, index) => ({
+          label: `${index + 1}`,
+          waypoint: stop,
+        })),
+        { label: `E-${route.id}`, waypoint: route.destination },
+      ].map(({ label, waypoint }) => ({
+        type: "Feature" as const,
+        properties: { routeId: route.id, color: route.color, label },
+        geometry: {
+          type: "Point" as const,
+          coordinates: waypoint.coordinates,
+        },
+      }))
+    ),
+});
@@ -0,0 +1,50 @@
+import {
+  getErrorMessage,
+  retryWithBackoff,
+  ServiceError,
+  toServiceError,
+} from './serviceErrors';
+
+test('maps response codes and HTTP statuses to errors', () => {
+  expect(toServiceError(200, { code: 'NoRoute' }).code).toBe('NoRoute');
+  expect(toServiceError(400, { code: 'TooBig' }).code).toBe(
+    'TooManyCoordinates'
+  );
+  expect(
+    toServiceError(401, { message: 'Not Authorized - Invalid Token' }).code
+  ).toBe('InvalidToken');
+  expect(toServiceError(429, null).code).toBe('RateLimited');
+  expect(toServiceError(503, null).code).toBe('ServerError');
+});
+
+test('shows readable messages, keeping the wording of rejected requests', () => {
+  expect(
+    getErrorMessage(toServiceError(401, { message: 'Not Authorized' }))
+  ).toBe('The Mapbox access token is invalid or has expired.');
+  expect(
+    getErrorMessage(toServiceError(422, { message: 'Coordinate is invalid' }))
+  ).toBe('Coordinate is invalid');
+  expect(getErrorMessage(new Error('oops'))).toBe(
+    'Something went wrong. Please try again.'
+  );
+});
+
+test('retries failures that may go away, with a growing delay', async () => {
+  const request = jest
+    .fn()
+    .mockRejectedValueOnce(new ServiceError('NetworkError'))
+    .mockRejectedValueOnce(new ServiceError('ServerError'))
+    .mockResolvedValue('route');
+
+  expect(await retryWithBackoff(request, { baseDelay: 1 })).toBe('route');
+  expect(request).toHaveBeenCalledTimes(3);
+});
+
+test('does not retry failures that would happen again', async () => {
+  const request = jest.fn().mockRejectedValue(new ServiceError('NoRoute'));
+
+  await expect(
+    retryWithBackoff(request, { baseDelay: 1 })
+  ).rejects.toHaveProperty('code', 'NoRoute');
+  expect(request).toHaveBeenCalledTimes(1);
+});
@@ -0,0 +1,144 @@
+// Failures of the routing and geocoding APIs, with messages that can be shown to the user
+
+export type ServiceErrorCode =
+  | "NoRoute"
+  | "NoSegment"
+  | "NoMatch"
+  | "ProfileNotFound"
+  | "InvalidInput"
+  | "TooManyCoordinates"
+  | "MissingToken"
+  | "InvalidToken"
+  | "Forbidden"
+  | "RateLimited"
+  | "ServerError"
+  | "NetworkError";
+
+const ERROR_MESSAGES: Record<ServiceErrorCode, string> = {
+  NoRoute:
+    "No route could be found between these points. Try moving them or choosing another profile.",
+  NoSegment:
+    "One of the points is too far from a road or path. Move it closer to one.",
+  NoMatch: "The track couldn't be matched to the road network.",
+  ProfileNotFound: "The routing server doesn't support this profile.",
+  InvalidInput: "The request was rejected by the service.",
+  TooManyCoordinates: "The route has too many points.",
+  MissingToken:
+    "No Mapbox access token is set. Add REACT_APP_MAPBOX_API_TOKEN to .env.local and restart.",
+  InvalidToken: "The Mapbox access token is invalid or has expired.",
+  Forbidden: "The Mapbox access token isn't allowed to use this service.",
+  RateLimited: "Too many requests were made. Please wait a moment.",
+  ServerError: "The service isn't available at the moment.",
+  NetworkError: "The service couldn't be reached. Check the connection.",
+};
+
+// The codes OSRM style APIs (Mapbox and OSRM itself) send in the response body
+const RESPONSE_CODES: Record<string, ServiceErrorCode> = {
+  NoRoute: "NoRoute",
+  NoSegment: "NoSegment",
+  NoMatch: "NoMatch",
+  NoTrips: "NoRoute",
+  ProfileNotFound: "ProfileNotFound",
+  InvalidInput: "InvalidInput",
+  InvalidQuery: "InvalidInput",
+  InvalidValue: "InvalidInput",
+  InvalidOptions: "InvalidInput",
+  InvalidUrl: "InvalidInput",
+  TooBig: "TooManyCoordinates",
+  TooManyCoordinates: "TooManyCoordinates",
+};
+
+export class ServiceError extends Error {
+  code: ServiceErrorCode;
+
+  constructor(code: ServiceErrorCode, message = ERROR_MESSAGES[code]) {
+    super(message);
+    this.name = "ServiceError";
+    this.code = code;
+  }
+}
+
+export const isAbortError = (error: unknown) =>
+  error instanceof DOMException && error.name === "AbortError";
+
+// Rate limits, server and connection failures may go away by themselves, the rest fail the same way again
+export const isRetryable = (error: unknown) =>
+  error instanceof ServiceError &&
+  ["RateLimited", "ServerError", "NetworkError"].includes(error.code);
+
+// A readable message for any failure.
+// Rejected requests keep the service's own wording (e.g. which coordinate is invalid), it's the most specific.
+export const getErrorMessage = (error: unknown) => {
+  if (!(error instanceof ServiceError)) {
+    return "Something went wrong. Please try again.";
+  }
+  return error.code === "InvalidInput"
+    ? error.message
+    : ERROR_MESSAGES[error.code];
+};
+
+// The error for a failed response, from the code in its body or else its HTTP status
+export const toServiceError = (status: number, data: any) => {
+  if (data?.code && RESPONSE_CODES[data.code]) {
+    return new ServiceError(RESPONSE_CODES[data.code], data.message);
+  }
+  if (status === 401) return new ServiceError("InvalidToken", data?.message);
+  if (status === 403) return new ServiceError("Forbidden", data?.message);
+  if (status === 429) return new ServiceError("RateLimited", data?.message);
+  if (status >= 500) return new ServiceError("ServerError", data?.message);
+  return new ServiceError("InvalidInput", data?.message);
+};
+
+// Fetches a JSON response, rejecting with a ServiceError when the request fails or the body reports an error
+export const fetchServiceJson = async (url: string, init?: RequestInit) => {
+  let response: Response;
+  try {
+    response = await fetch(url, init);
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    throw new ServiceError("NetworkError");
+  }
+
+  const data = await response.json().catch(() => null);
+  if (!response.ok || (data?.code && data.code !== "Ok")) {
+    throw toServiceError(response.status, data);
+  }
+  return data;
+};
+
+// Resolves after the delay, or rejects with an AbortError as soon as the signal is aborted
+export const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException("Aborted", "AbortError"));
+      return;
+    }
+    const timeoutId = window.setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      window.clearTimeout(timeoutId);
+      reject(new DOMException("Aborted", "AbortError"));
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+// Runs the request again when it fails in a way that may go away, waiting twice as long before each attempt
+export const retryWithBackoff = async <T>(
+  request: () => Promise<T>,
+  {
+    retries = 3,
+    baseDelay = 1000,
+    signal,
+  }: { retries?: number; baseDelay?: number; signal?: AbortSignal } = {}
+): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await request();
+    } catch (error) {
+      if (attempt >= retries || !isRetryable(error)) throw error;
+    }
+    await wait(baseDelay * 2 ** attempt, signal);
+  }
+};
@@ -0,0 +1,112 @@
+import { Route } from './interfaces';
+import { createCurrentRoute } from './routes';
+import { loadStoredState, saveStoredState, SCHEMA_VERSION } from './storage';
+
+const STORAGE_KEY = 'mapbox-react-ts:routes';
+
+const route: Route = {
+  id: 1,
+  origin: { coordinates: [153.02, -27.47], address: 'Origin' },
+  stops: [],
+  destination: { coordinates: [153.03, -27.48], address: 'Destination' },
+  viaPoints: [],
+  geometry: {
+    type: 'LineString',
+    coordinates: [
+      [153.02, -27.47],
+      [153.03, -27.48],
+    ],
+  },
+  alternatives: [],
+  selectedAlternative: 0,
+  profile: 'walking',
+  name: 'Route 1',
+  notes: '',
+  hidden: false,
+  color: '#e6194b',
+};
+
+beforeEach(() => {
+  localStorage.clear();
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+test('restores what was saved', () => {
+  const state = {
+    routes: [route],
+    currentRoute: createCurrentRoute(2, 'cycling'),
+    routeCounter: 2,
+  };
+  saveStoredState(state);
+
+  expect(loadStoredState()).toEqual(state);
+  expect(JSON.parse(localStorage.getItem(STORAGE_KEY)!).version).toBe(
+    SCHEMA_VERSION
+  );
+});
+
+test('falls back to the defaults and keeps a backup when the entry is unreadable', () => {
+  localStorage.setItem(STORAGE_KEY, '{not json');
+
+  expect(loadStoredState().routes).toEqual([]);
+  expect(localStorage.getItem(`${STORAGE_KEY}:corrupt`)).toBe('{not json');
+});
+
+test('drops only the broken routes and keeps the counter ahead of the saved IDs', () => {
+  localStorage.setItem(
+    STORAGE_KEY,
+    JSON.stringify({
+      version: SCHEMA_VERSION,
+      routes: [{ ...route, id: 7 }, { id: 'broken' }],
+      currentRoute: null,
+      routeCounter: 3,
+    })
+  );
+
+  const state = loadStoredState();
+  expect(state.routes.map(({ id }) => id)).toEqual([7]);
+  expect(state.routeCounter).toBe(8);
+  expect(state.currentRoute.origin).toBeNull();
+});
+
+test('migrates routes saved before they had names, colors and steps', () => {
+  const { name, notes, hidden, color, ...legacyRoute } = route;
+  const alternative = {
+    geometry: route.geometry,
+    distance: 1500,
+    duration: 1200,
+  };
+  localStorage.setItem(
+    STORAGE_KEY,
+    JSON.stringify({
+      version: 1,
+      routes: [{ ...legacyRoute, alternatives: [alternative] }],
+      currentRoute: createCurrentRoute(2, 'walking'),
+      routeCounter: 2,
+    })
+  );
+
+  expect(loadStoredState().routes).toEqual([
+    { ...route, alternatives: [{ ...alternative, steps: [] }] },
+  ]);
+});
+
+test('replaces an unknown profile with the default one', () => {
+  localStorage.setItem(
+    STORAGE_KEY,
+    JSON.stringify({
+      version: SCHEMA_VERSION,
+      routes: [{ ...route, profile: 'hovercraft' }],
+      currentRoute: { ...createCurrentRoute(2, 'cycling'), profile: 42 },
+      routeCounter: 2,
+    })
+  );
+
+  const state = loadStoredState();
+  expect(state.routes).toEqual([{ ...route, profile: 'walking' }]);
+  expect(state.currentRoute.profile).toBe('walking');
+});
@@ -0,0 +1,222 @@
+import { CurrentRoute, Route, RoutingProfile } from "./interfaces";
+import { ROUTING_PROFILES } from "./profiles";
+import { createCurrentRoute, getDefaultRouteColor } from "./routes";
+
+// Saved routes, the route being planned and the ID counter are kept in local storage under a single key,
+//    so a page refresh doesn't lose them
+const STORAGE_KEY = "mapbox-react-ts:routes";
+// Entries that couldn't be read are copied here before being replaced, so they can still be recovered by hand
+const CORRUPT_STORAGE_KEY = `${STORAGE_KEY}:corrupt`;
+
+// Bump this whenever the stored shape of the interfaces changes, and add a migration from the previous version
+export const SCHEMA_VERSION = 3;
+
+export interface StoredState {
+  routes: Route[];
+  currentRoute: CurrentRoute;
+  routeCounter: number;
+}
+
+interface StoredEntry extends StoredState {
+  version: number;
+}
+
+// Migrations upgrade a stored entry from the version in the key to the next version
+const migrations: Record<number, (entry: any) => any> = {
+  // 1 -> 2: saved routes got a name, notes, visibility and color
+  1: (entry) => ({
+    ...entry,
+    routes: Array.isArray(entry.routes)
+      ? entry.routes.map((route: any) => ({
+          ...route,
+          name: `Route ${route?.id}`,
+          notes: "",
+          hidden: false,
+          color: getDefaultRouteColor(route?.id),
+        }))
+      : entry.routes,
+  }),
+  // 2 -> 3: route alternatives got turn-by-turn steps, older ones have none
+  2: (entry) => {
+    const withSteps = (route: any) =>
+      route && Array.isArray(route.alternatives)
+        ? {
+            ...route,
+            alternatives: route.alternatives.map((alternative: any) => ({
+              ...alternative,
+              steps: [],
+            })),
+          }
+        : route;
+
+    return {
+      ...entry,
+      routes: Array.isArray(entry.routes)
+        ? entry.routes.map(withSteps)
+        : entry.routes,
+      currentRoute: withSteps(entry.currentRoute),
+    };
+  },
+};
+
+const DEFAULT_PROFILE: RoutingProfile = "walking";
+
+export const defaultStoredState = (): StoredState => ({
+  routes: [],
+  currentRoute: createCurrentRoute(0, DEFAULT_PROFILE),
+  routeCounter: 1,
+});
+
+const isCoordinates = (value: any): value is [number, number] =>
+  Array.isArray(value) &&
+  value.length === 2 &&
+  value.every((n) => typeof n === "number" && isFinite(n));
+
+const isWaypoint = (value: any) =>
+  !!value &&
+  isCoordinates(value.coordinates) &&
+  typeof value.address === "string";
+
+const isViaPoint = (value: any) =>
+  !!value && isCoordinates(value.coordinates) && Number.isInteger(value.leg);
+
+const isGeometry = (value: any) =>
+  !!value && typeof value.type === "string" && Array.isArray(value.coordinates);
+
+const isStep = (value: any) =>
+  !!value &&
+  typeof value.instruction === "string" &&
+  isCoordinates(value.location) &&
+  isGeometry(value.geometry) &&
+  typeof value.distance === "number";
+
+const isAlternative = (value: any) =>
+  !!value &&
+  isGeometry(value.geometry) &&
+  typeof value.distance === "number" &&
+  typeof value.duration === "number" &&
+  Array.isArray(value.steps) &&
+  value.steps.every(isStep);
+
+const isRoute = (value: any): value is Route =>
+  !!value &&
+  Number.isInteger(value.id) &&
+  isWaypoint(value.origin) &&
+  isWaypoint(value.destination) &&
+  Array.isArray(value.stops) &&
+  value.stops.every(isWaypoint) &&
+  Array.isArray(value.viaPoints) &&
+  value.viaPoints.every(isViaPoint) &&
+  isGeometry(value.geometry) &&
+  Array.isArray(value.alternatives) &&
+  value.alternatives.every(isAlternative) &&
+  typeof value.name === "string" &&
+  typeof value.notes === "string" &&
+  typeof value.hidden === "boolean" &&
+  typeof value.color === "string";
+
+const isCurrentRoute = (value: any): value is CurrentRoute =>
+  !!value &&
+  Number.isInteger(value.id) &&
+  (value.origin === null || isWaypoint(value.origin)) &&
+  (value.destination === null || isWaypoint(value.destination)) &&
+  Array.isArray(value.stops) &&
+  value.stops.every(isWaypoint) &&
+  Array.isArray(value.viaPoints) &&
+  value.viaPoints.every(isViaPoint) &&
+  (value.geometry === null || isGeometry(value.geometry)) &&
+  Array.isArray(value.alternatives) &&
+  value.alternatives.every(isAlternative);
+
+// Every request URL is built from the profile, so an unknown one is replaced by the default rather than loaded
+const withKnownProfile = <T extends Route | CurrentRoute>(route: T): T =>
+  ROUTING_PROFILES.some(({ value }) => value === route.profile)
+    ? route
+    : { ...route, profile: DEFAULT_PROFILE };
+
+const backUpCorruptEntry = (raw: string) => {
+  try {
+    localStorage.setItem(CORRUPT_STORAGE_KEY, raw);
+  } catch (error) {
+    console.error("Error backing up corrupt routes:", error);
+  }
+};
+
+// Runs the migrations from the stored version up to the current one
+const migrate = (entry: any) => {
+  let migrated = entry;
+  for (let version = entry.version; version < SCHEMA_VERSION; version++) {
+    if (!migrations[version]) {
+      throw new Error(`No migration from routes schema version ${version}`);
+    }
+    migrated = { ...migrations[version](migrated), version: version + 1 };
+  }
+  return migrated;
+};
+
+// Reads the stored state. Anything that can't be read falls back to the defaults:
+//    a single broken route is dropped, a broken current route is reset, and an unreadable entry is backed up and replaced.
+export const loadStoredState = (): StoredState => {
+  const defaults = defaultStoredState();
+
+  let raw: string | null = null;
+  try {
+    raw = localStorage.getItem(STORAGE_KEY);
+  } catch (error) {
+    console.error("Error reading stored routes:", error);
+  }
+  if (!raw) return defaults;
+
+  let entry: any;
+  try {
+    entry = JSON.parse(raw);
+    if (!entry || !Number.isInteger(entry.version)) {
+      throw new Error("Stored routes have no schema version");
+    }
+    if (entry.version > SCHEMA_VERSION) {
+      throw new Error(
+        `Stored routes are from a newer schema version (${entry.version})`
+      );
+    }
+    entry = migrate(entry);
+  } catch (error) {
+    console.error("Error loading stored routes:", error);
+    backUpCorruptEntry(raw);
+    return defaults;
+  }
+
+  const routes: Route[] = Array.isArray(entry.routes)
+    ? entry.routes
+        .filter((route: any) => {
+          if (isRoute(route)) return true;
+          console.error("Dropping unreadable stored route:", route);
+          return false;
+        })
+        .map(withKnownProfile)
+    : [];
+  if (routes.length !== (entry.routes?.length ?? 0)) {
+    backUpCorruptEntry(raw);
+  }
+
+  // The counter must stay ahead of every saved route ID, even if the stored one is missing or stale
+  const routeCounter = Math.max(
+    Number.isInteger(entry.routeCounter) ? entry.routeCounter : 1,
+    ...routes.map((route) => route.id + 1)
+  );
+
+  const currentRoute = isCurrentRoute(entry.currentRoute)
+    ? withKnownProfile(entry.currentRoute)
+    : createCurrentRoute(routeCounter, DEFAULT_PROFILE);
+
+  return { routes, currentRoute, routeCounter };
+};
+
+export const saveStoredState = (state: StoredState) => {
+  const entry: StoredEntry = { version: SCHEMA_VERSION, ...state };
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(entry));
+  } catch (error) {
+    // Most likely the storage quota is exceeded, the routes are still kept in memory
+    console.error("Error saving routes:", error);
+  }
+};
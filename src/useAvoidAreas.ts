@@ -0,0 +1,33 @@
+import { Polygon } from "geojson";
+import { useEffect, useState } from "react";
+import {
+  AvoidArea,
+  loadAvoidAreas,
+  saveAvoidAreas,
+  toAvoidArea,
+} from "./avoidAreas";
+
+// Areas for routes to avoid, drawn on the map as polygons and remembered across sessions
+export const useAvoidAreas = () => {
+  const [avoidAreas, setAvoidAreas] = useState<AvoidArea[]>(loadAvoidAreas);
+
+  useEffect(() => {
+    saveAvoidAreas(avoidAreas);
+  }, [avoidAreas]);
+
+  const addAvoidArea = (geometry: Polygon) =>
+    setAvoidAreas((prev) => {
+      const id = Math.max(0, ...prev.map((area) => area.id)) + 1;
+      return [...prev, toAvoidArea(id, geometry)];
+    });
+
+  const updateAvoidArea = (id: number, changes: Partial<AvoidArea>) =>
+    setAvoidAreas((prev) =>
+      prev.map((area) => (area.id === id ? { ...area, ...changes } : area))
+    );
+
+  const deleteAvoidArea = (id: number) =>
+    setAvoidAreas((prev) => prev.filter((area) => area.id !== id));
+
+  return { avoidAreas, addAvoidArea, updateAvoidArea, deleteAvoidArea };
+};
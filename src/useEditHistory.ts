@@ -0,0 +1,79 @@
+import { useEffect, useRef, useState } from "react";
+import {
+  createHistory,
+  History,
+  recordHistory,
+  redoHistory,
+  undoHistory,
+} from "./history";
+import { CurrentRoute, Route } from "./interfaces";
+
+// The state restored by undo and redo
+export interface EditSnapshot {
+  routes: Route[];
+  currentRoute: CurrentRoute;
+  routeCounter: number;
+  // Whether the geometry of the current route matched its waypoints, or was still being fetched
+  isRouteSettled: boolean;
+}
+
+// Undo/redo history of the route edits: the current route, the saved routes and the route counter as they were before each edit.
+// The snapshot is the state of this render, putting a snapshot back in place is up to onRestore.
+export const useEditHistory = (
+  snapshot: EditSnapshot,
+  onRestore: (snapshot: EditSnapshot) => void
+) => {
+  const [history, setHistory] = useState<History<EditSnapshot>>(createHistory);
+
+  // The state of the last render, async handlers would otherwise record the state from when they started
+  const latestSnapshot = useRef(snapshot);
+  latestSnapshot.current = snapshot;
+
+  // Counts the undos and redos, so a debounced or async update started before one of them can tell that it's stale
+  const historyRestores = useRef(0);
+
+  // Called right before an undoable edit. Edits with the same key in a row (e.g. typing a name) are undone together.
+  const recordEdit = (editKey?: string) => {
+    const snapshot = latestSnapshot.current;
+    setHistory((prev) => recordHistory(prev, snapshot, editKey));
+  };
+
+  const restore = (
+    result: { history: History<EditSnapshot>; snapshot: EditSnapshot } | null
+  ) => {
+    if (!result) return;
+    setHistory(result.history);
+    historyRestores.current++;
+    onRestore(result.snapshot);
+  };
+
+  const undo = () => restore(undoHistory(history, latestSnapshot.current));
+  const redo = () => restore(redoHistory(history, latestSnapshot.current));
+
+  // Ctrl+Z to undo, Ctrl+Shift+Z (or Ctrl+Y) to redo. Text fields keep their own undo.
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const target = e.target as HTMLElement;
+      if (
+        ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName) ||
+        target.isContentEditable
+      )
+        return;
+
+      const key = e.key.toLowerCase();
+      if (key === "z" && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === "z" && e.shiftKey) || key === "y") {
+        e.preventDefault();
+        redo();
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  });
+
+  return { history, latestSnapshot, historyRestores, recordEdit, undo, redo };
+};
@@ -0,0 +1,80 @@
+import { useEffect, useState } from "react";
+import { RoutingProfile } from "./interfaces";
+import { Isochrone, IsochroneSettings, isochroneService } from "./isochrones";
+import { getErrorMessage } from "./serviceErrors";
+
+// "Show reachable area" from a point of the map, fetched again when the profile or the settings change.
+// Failures are shown, and also passed to onError.
+export const useIsochrones = (
+  profile: RoutingProfile,
+  settings: IsochroneSettings,
+  onError: (error: unknown) => void
+) => {
+  const [reachableCenter, setReachableCenter] = useState<
+    [number, number] | null
+  >(null);
+  const [isochrones, setIsochrones] = useState<Isochrone[]>([]);
+  const [hiddenBands, setHiddenBands] = useState<number[]>([]);
+  const [isIsochroneLoading, setIsIsochroneLoading] = useState(false);
+  const [isochroneError, setIsochroneError] = useState<string | null>(null);
+  const settingsKey = `${settings.metric}:${settings.bands.join()}`;
+
+  useEffect(() => {
+    setIsochroneError(null);
+    if (!reachableCenter) {
+      setIsochrones([]);
+      setIsIsochroneLoading(false);
+      return;
+    }
+
+    // A slow response is dropped once the point, profile or bands change again
+    let isCancelled = false;
+    const fetchIsochrones = async () => {
+      setIsIsochroneLoading(true);
+      try {
+        const result = await isochroneService.getIsochrones(
+          reachableCenter,
+          profile,
+          settings
+        );
+        if (!isCancelled) setIsochrones(result);
+      } catch (error) {
+        if (isCancelled) return;
+        console.error("Error fetching reachable area:", error);
+        onError(error);
+        setIsochroneError(
+          `The reachable area couldn't be found. ${getErrorMessage(error)}`
+        );
+      } finally {
+        if (!isCancelled) setIsIsochroneLoading(false);
+      }
+    };
+
+    fetchIsochrones();
+    return () => {
+      isCancelled = true;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [reachableCenter, profile, settingsKey]);
+
+  const clearReachableArea = () => {
+    setReachableCenter(null);
+    setHiddenBands([]);
+  };
+
+  const toggleBand = (band: number) =>
+    setHiddenBands((prev) =>
+      prev.includes(band) ? prev.filter((b) => b !== band) : [...prev, band]
+    );
+
+  return {
+    reachableCenter,
+    setReachableCenter,
+    isochrones,
+    hiddenBands,
+    isIsochroneLoading,
+    isochroneError,
+    clearReachableArea,
+    toggleBand,
+  };
+};
@@ -0,0 +1,68 @@
+import { useEffect, useState } from "react";
+import { CurrentRoute } from "./interfaces";
+import { generateLoops, LoopCandidate, LoopDirection } from "./loops";
+import { routingService } from "./routingService";
+import { getErrorMessage } from "./serviceErrors";
+
+// "Generate loop": candidate round trips of a target distance from the origin of the route.
+// getLatestRoute gives the route as it is once the loops are routed. Failures are shown, and also passed to onError.
+export const useLoops = (
+  route: CurrentRoute,
+  getLatestRoute: () => CurrentRoute,
+  onError: (error: unknown) => void
+) => {
+  const [loopCandidates, setLoopCandidates] = useState<LoopCandidate[]>([]);
+  const [loopPreview, setLoopPreview] = useState(0);
+  const [isGeneratingLoop, setIsGeneratingLoop] = useState(false);
+  const [loopError, setLoopError] = useState<string | null>(null);
+
+  // The candidates only fit the origin and profile they were generated for
+  useEffect(() => {
+    setLoopCandidates([]);
+    setLoopError(null);
+  }, [route.origin?.coordinates, route.profile]);
+
+  const generateLoop = async (distance: number, direction: LoopDirection) => {
+    const { origin, profile } = route;
+    if (!origin) return;
+
+    setIsGeneratingLoop(true);
+    setLoopError(null);
+    setLoopCandidates([]);
+    try {
+      const candidates = await generateLoops(
+        routingService,
+        origin,
+        distance,
+        direction,
+        profile
+      );
+      // Changed while the loops were routed
+      const latest = getLatestRoute();
+      if (
+        latest.origin?.coordinates !== origin.coordinates ||
+        latest.profile !== profile
+      )
+        return;
+
+      setLoopCandidates(candidates);
+      setLoopPreview(0);
+    } catch (error) {
+      console.error("Error generating loops:", error);
+      onError(error);
+      setLoopError(getErrorMessage(error));
+    } finally {
+      setIsGeneratingLoop(false);
+    }
+  };
+
+  return {
+    loopCandidates,
+    clearLoops: () => setLoopCandidates([]),
+    loopPreview,
+    setLoopPreview,
+    isGeneratingLoop,
+    loopError,
+    generateLoop,
+  };
+};
@@ -0,0 +1,59 @@
+import { useState } from "react";
+import {
+  describeMeasurement,
+  measureGeometry,
+  MeasureMode,
+  MeasureShape,
+  toMeasurementWaypoints,
+} from "./measure";
+import { Units } from "./preferences";
+import { MAX_ROUTE_COORDINATES } from "./waypoints";
+
+// Measuring distances and areas on the map. The shape is followed while it's drawn (in the given mode),
+//    and kept once finished.
+export const useMeasure = (mode: MeasureMode | null, units: Units) => {
+  const [liveMeasureShape, setLiveMeasureShape] = useState<MeasureShape | null>(
+    null
+  );
+  const [measuredShape, setMeasuredShape] = useState<MeasureShape | null>(null);
+  const [isMeasurementCopied, setIsMeasurementCopied] = useState(false);
+  const measurement = measureGeometry(mode ? liveMeasureShape : measuredShape);
+
+  const clearMeasurement = () => {
+    setLiveMeasureShape(null);
+    setMeasuredShape(null);
+  };
+
+  const copyMeasurement = async () => {
+    if (!measurement) return;
+    try {
+      await navigator.clipboard.writeText(
+        describeMeasurement(measurement, units)
+      );
+      setIsMeasurementCopied(true);
+      window.setTimeout(() => setIsMeasurementCopied(false), 2000);
+    } catch (error) {
+      console.error("Error copying measurement:", error);
+    }
+  };
+
+  // The measured points as the waypoints of a route, when there are few enough of them
+  const measurementWaypoints = measurement
+    ? toMeasurementWaypoints(measurement)
+    : [];
+  const canMakeMeasurementRoute =
+    measurementWaypoints.length >= 2 &&
+    measurementWaypoints.length <= MAX_ROUTE_COORDINATES;
+
+  return {
+    measurement,
+    measuredShape,
+    setMeasuredShape,
+    setLiveMeasureShape,
+    clearMeasurement,
+    isMeasurementCopied,
+    copyMeasurement,
+    measurementWaypoints,
+    canMakeMeasurementRoute,
+  };
+};
@@ -0,0 +1,104 @@
+import { useEffect, useState } from "react";
+import { CurrentRoute } from "./interfaces";
+import {
+  getTripCost,
+  getTripWaypoints,
+  solveTrip,
+  TripEnd,
+} from "./optimization";
+import { OptimizedTrip } from "./OptimizeOrderPanel";
+import { getRouteRequestKey } from "./routes";
+import { routingService } from "./routingService";
+import { getErrorMessage } from "./serviceErrors";
+import { getOrderedWaypoints } from "./waypoints";
+
+// "Optimize order": the stops of the route are reordered with a travel matrix from the routing backend.
+// getLatestRoute gives the route as it is once the matrix is in. Failures are shown, and also passed to onError.
+export const useOptimizeOrder = (
+  route: CurrentRoute,
+  walkingPace: number,
+  getLatestRoute: () => CurrentRoute,
+  onError: (error: unknown) => void
+) => {
+  const [tripEnd, setTripEnd] = useState<TripEnd>("fixed");
+  const [optimizedTrip, setOptimizedTrip] = useState<OptimizedTrip | null>(
+    null
+  );
+  const [isOptimizing, setIsOptimizing] = useState(false);
+  const [optimizeError, setOptimizeError] = useState<string | null>(null);
+
+  // A found order only fits the waypoints it was found for
+  const routeRequestKey = getRouteRequestKey(route);
+  useEffect(() => {
+    setOptimizedTrip(null);
+    setOptimizeError(null);
+  }, [routeRequestKey]);
+
+  const optimizeOrder = async () => {
+    const end = tripEnd;
+    const waypoints = getTripWaypoints(route, end);
+
+    setIsOptimizing(true);
+    setOptimizeError(null);
+    setOptimizedTrip(null);
+    try {
+      const matrix = await routingService.getMatrix(
+        waypoints.map((waypoint) => waypoint.coordinates),
+        route.profile
+      );
+      // Changed while the matrix was fetched
+      if (getRouteRequestKey(getLatestRoute()) !== routeRequestKey) return;
+
+      // Walking is timed with the user's pace, so the shortest order is also the quickest
+      const isWalking = route.profile === "walking";
+      const order = solveTrip(
+        isWalking ? matrix.distances : matrix.durations,
+        end
+      );
+      const getTotals = (tripOrder: number[], orderEnd: TripEnd) => {
+        const distance = getTripCost(matrix.distances, tripOrder, orderEnd);
+        return {
+          distance,
+          duration: isWalking
+            ? (distance / 1000) * walkingPace
+            : getTripCost(matrix.durations, tripOrder, orderEnd),
+        };
+      };
+
+      const after = getTotals(order, end);
+      if (!Number.isFinite(after.distance)) {
+        setOptimizeError(
+          "Some of the waypoints can't be reached from each other."
+        );
+        return;
+      }
+      // A route that already returns to its origin had its last waypoint left out of the matrix
+      const isClosed = waypoints.length < getOrderedWaypoints(route).length;
+      setOptimizedTrip({
+        order,
+        end,
+        before: getTotals(
+          waypoints.map((_, index) => index),
+          isClosed ? "roundTrip" : "fixed"
+        ),
+        after,
+      });
+    } catch (error) {
+      console.error("Error optimizing the order:", error);
+      onError(error);
+      setOptimizeError(getErrorMessage(error));
+    } finally {
+      setIsOptimizing(false);
+    }
+  };
+
+  return {
+    tripEnd,
+    setTripEnd,
+    optimizedTrip,
+    setOptimizedTrip,
+    isOptimizing,
+    optimizeError,
+    optimizeOrder,
+  };
+};
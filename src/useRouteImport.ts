@@ -0,0 +1,129 @@
+import React, { useState } from "react";
+import { ImportError } from "./ImportPanel";
+import { Route, RouteAlternative, RoutingProfile } from "./interfaces";
+import { ImportedTrack, parseRouteFile } from "./routeImport";
+import { routingService } from "./routingService";
+
+// A route read from a file, before it gets its ID and colour
+export type ImportedRoute = Omit<Route, "id" | "color">;
+
+// Importing route files as saved routes, picked or dragged onto the map, one import at a time.
+// The tracks are routed with the profile, and the addresses of their ends looked up with reverseGeocode.
+export const useRouteImport = (
+  profile: RoutingProfile,
+  reverseGeocode: (lng: number, lat: number) => Promise<string>,
+  onImport: (routes: ImportedRoute[]) => void
+) => {
+  const [isImporting, setIsImporting] = useState(false);
+  const [mapMatchImports, setMapMatchImports] = useState(false);
+  const [importErrors, setImportErrors] = useState<ImportError[]>([]);
+  const [isFileOver, setIsFileOver] = useState(false);
+
+  // Imports the tracks of each file. A file that can't be read, or a track that can't be matched,
+  //    gets its own error and the rest is still imported.
+  const importFiles = async (files: File[]) => {
+    if (files.length === 0) return;
+
+    setIsImporting(true);
+    setImportErrors([]);
+
+    const errors: ImportError[] = [];
+    const importedRoutes: ImportedRoute[] = [];
+
+    for (const file of files) {
+      let tracks: ImportedTrack[];
+      try {
+        tracks = parseRouteFile(file.name, await file.text());
+      } catch (error) {
+        errors.push({
+          fileName: file.name,
+          message: error instanceof Error ? error.message : `${error}`,
+        });
+        continue;
+      }
+
+      for (const track of tracks) {
+        const first = track.coordinates[0];
+        const last = track.coordinates[track.coordinates.length - 1];
+
+        let alternative: RouteAlternative | null = null;
+        if (mapMatchImports) {
+          alternative = await routingService.matchTrack(
+            track.coordinates,
+            profile
+          );
+          if (!alternative) {
+            errors.push({
+              fileName: file.name,
+              message: `"${track.name}" could not be matched to the road network`,
+            });
+            continue;
+          }
+        }
+
+        importedRoutes.push({
+          origin: {
+            coordinates: first,
+            address: await reverseGeocode(first[0], first[1]),
+          },
+          stops: track.waypoints.map((waypoint) => ({
+            coordinates: waypoint.coordinates,
+            address: waypoint.name,
+          })),
+          destination: {
+            coordinates: last,
+            address: await reverseGeocode(last[0], last[1]),
+          },
+          viaPoints: [],
+          geometry: alternative?.geometry || {
+            type: "LineString",
+            coordinates: track.coordinates,
+          },
+          alternatives: alternative ? [alternative] : [],
+          selectedAlternative: 0,
+          profile,
+          name: track.name,
+          notes: `Imported from ${file.name}`,
+          hidden: false,
+        });
+      }
+    }
+
+    if (importedRoutes.length > 0) onImport(importedRoutes);
+    setImportErrors(errors);
+    setIsImporting(false);
+  };
+
+  // Route files can be dragged from the desktop onto the map
+  const handleFileDragOver = (e: React.DragEvent) => {
+    if (!e.dataTransfer.types.includes("Files")) return;
+
+    e.preventDefault();
+    e.dataTransfer.dropEffect = "copy";
+    setIsFileOver(true);
+  };
+
+  const handleFileDragLeave = () => setIsFileOver(false);
+
+  const handleFileDrop = (e: React.DragEvent) => {
+    if (!e.dataTransfer.types.includes("Files")) return;
+
+    e.preventDefault();
+    setIsFileOver(false);
+    // Like the file picker, one import at a time: two would race to replace the route
+    if (isImporting) return;
+    importFiles(Array.from(e.dataTransfer.files));
+  };
+
+  return {
+    isImporting,
+    mapMatchImports,
+    setMapMatchImports,
+    importErrors,
+    importFiles,
+    isFileOver,
+    handleFileDragOver,
+    handleFileDragLeave,
+    handleFileDrop,
+  };
+};
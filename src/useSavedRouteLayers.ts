@@ -0,0 +1,105 @@
+import { RefObject, useEffect, useMemo, useRef, useState } from "react";
+import { MapRef } from "react-map-gl";
+import { Route } from "./interfaces";
+import {
+  SAVED_ROUTES_SOURCE,
+  toSavedRouteEndpoints,
+  toSavedRouteLines,
+} from "./savedRouteLayers";
+
+// Where a saved route was clicked on the map, for its popup
+export interface RoutePopup {
+  routeId: number;
+  longitude: number;
+  latitude: number;
+}
+
+// The data of the saved route layers, and the saved route hovered and selected on them.
+// The route picked on the map or in the list is highlighted. Picked on the map, it also gets a popup.
+export const useSavedRouteLayers = (
+  mapRef: RefObject<MapRef>,
+  routes: Route[],
+  currentRouteId: number
+) => {
+  // Only rebuilt when the routes change, not on every render (e.g. while the pointer moves), which would redraw all of them
+  const savedRouteLines = useMemo(
+    () => toSavedRouteLines(routes, currentRouteId),
+    [routes, currentRouteId]
+  );
+  const savedRouteEndpoints = useMemo(
+    () => toSavedRouteEndpoints(routes, currentRouteId),
+    [routes, currentRouteId]
+  );
+
+  // Moves a flag of the feature state (hover or selected) of the saved route lines from one route to another
+  const moveRouteFeatureState = (
+    key: "hover" | "selected",
+    from: number | null,
+    to: number | null
+  ) => {
+    const map = mapRef.current;
+    if (!map) return;
+
+    if (from !== null) {
+      map.setFeatureState(
+        { source: SAVED_ROUTES_SOURCE, id: from },
+        { [key]: false }
+      );
+    }
+    if (to !== null) {
+      map.setFeatureState(
+        { source: SAVED_ROUTES_SOURCE, id: to },
+        { [key]: true }
+      );
+    }
+  };
+
+  // The saved route under the pointer is drawn wider, through the feature state of its line
+  const hoveredRouteId = useRef<number | null>(null);
+  const setHoveredRoute = (id: number | null) => {
+    if (id === hoveredRouteId.current) return;
+    moveRouteFeatureState("hover", hoveredRouteId.current, id);
+    hoveredRouteId.current = id;
+  };
+
+  const [selectedRouteId, setSelectedRouteId] = useState<number | null>(null);
+  const [routePopup, setRoutePopup] = useState<RoutePopup | null>(null);
+  const highlightedRouteId = useRef<number | null>(null);
+
+  useEffect(() => {
+    moveRouteFeatureState(
+      "selected",
+      highlightedRouteId.current,
+      selectedRouteId
+    );
+    highlightedRouteId.current = selectedRouteId;
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [selectedRouteId]);
+
+  // Deleted routes, and the one loaded for editing (drawn as the current route), can't stay selected
+  useEffect(() => {
+    if (
+      selectedRouteId !== null &&
+      (selectedRouteId === currentRouteId ||
+        !routes.some((route) => route.id === selectedRouteId))
+    ) {
+      setSelectedRouteId(null);
+      setRoutePopup(null);
+    }
+  }, [routes, currentRouteId, selectedRouteId]);
+
+  const popupRoute = routePopup
+    ? routes.find((route) => route.id === routePopup.routeId)
+    : undefined;
+
+  return {
+    savedRouteLines,
+    savedRouteEndpoints,
+    setHoveredRoute,
+    selectedRouteId,
+    setSelectedRouteId,
+    routePopup,
+    setRoutePopup,
+    popupRoute,
+  };
+};
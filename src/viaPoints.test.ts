@@ -0,0 +1,37 @@
+import { Waypoint } from './interfaces';
+import { findViaPointInsertion, getRoutePoints } from './viaPoints';
+
+const point = (lng: number): Waypoint => ({
+  coordinates: [lng, 0],
+  address: `${lng}`,
+});
+
+// A straight line along the equator: origin at 0, a stop at 10, destination at 20
+const line: [number, number][] = Array.from({ length: 21 }, (_, i) => [i, 0]);
+const route = {
+  origin: point(0),
+  stops: [point(10)],
+  destination: point(20),
+  viaPoints: [{ coordinates: [5, 0] as [number, number], leg: 0 }],
+};
+
+test('interleaves via points with the waypoints of their leg', () => {
+  expect(
+    getRoutePoints(route).map(({ coordinates }) => coordinates[0])
+  ).toEqual([0, 5, 10, 20]);
+});
+
+test('inserts a via point into the leg that was grabbed', () => {
+  expect(findViaPointInsertion(route, line, [2.5, 0.1])).toEqual({
+    leg: 0,
+    index: 0,
+  });
+  expect(findViaPointInsertion(route, line, [7.5, 0.1])).toEqual({
+    leg: 0,
+    index: 1,
+  });
+  expect(findViaPointInsertion(route, line, [15.5, -0.1])).toEqual({
+    leg: 1,
+    index: 1,
+  });
+});
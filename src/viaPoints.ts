@@ -0,0 +1,134 @@
+import { ViaPoint } from "./interfaces";
+import { getOrderedWaypoints, WaypointRoute } from "./waypoints";
+
+type Coordinates = [number, number];
+
+// A coordinate sent to the Directions API, either a waypoint or a via point
+interface RoutePoint {
+  coordinates: Coordinates;
+  // Set for waypoints: the position in the ordered waypoint list
+  waypointIndex: number | null;
+  // Set for via points: the position in the via point list
+  viaIndex: number | null;
+}
+
+// Waypoints with each leg's via points in between, in the order they are sent to the Directions API
+export const getRoutePoints = (route: WaypointRoute): RoutePoint[] => {
+  const points: RoutePoint[] = [];
+
+  getOrderedWaypoints(route).forEach((waypoint, waypointIndex) => {
+    points.push({
+      coordinates: waypoint.coordinates,
+      waypointIndex,
+      viaIndex: null,
+    });
+    route.viaPoints.forEach((viaPoint, viaIndex) => {
+      if (viaPoint.leg === waypointIndex) {
+        points.push({
+          coordinates: viaPoint.coordinates,
+          waypointIndex: null,
+          viaIndex,
+        });
+      }
+    });
+  });
+
+  return points;
+};
+
+// Squared distance, with longitude scaled down by latitude so nearby comparisons are not skewed
+const distanceSquared = (a: Coordinates, b: Coordinates) => {
+  const dx = (a[0] - b[0]) * Math.cos((a[1] * Math.PI) / 180);
+  const dy = a[1] - b[1];
+  return dx * dx + dy * dy;
+};
+
+// Distance from a point to the line segment a-b, using the same scaling
+const segmentDistanceSquared = (
+  point: Coordinates,
+  a: Coordinates,
+  b: Coordinates
+) => {
+  const scale = Math.cos((point[1] * Math.PI) / 180);
+  const abx = (b[0] - a[0]) * scale;
+  const aby = b[1] - a[1];
+  const apx = (point[0] - a[0]) * scale;
+  const apy = point[1] - a[1];
+  const lengthSquared = abx * abx + aby * aby;
+  const t =
+    lengthSquared > 0
+      ? Math.max(0, Math.min(1, (apx * abx + apy * aby) / lengthSquared))
+      : 0;
+
+  return distanceSquared(point, [
+    a[0] + (b[0] - a[0]) * t,
+    a[1] + (b[1] - a[1]) * t,
+  ]);
+};
+
+// Works out where a via point dragged from `point` on the route line goes:
+//    the leg it belongs to and its position in the via point list.
+// Each route point is located on the line by searching forward from the previous one, so routes that pass
+//    the same place twice still resolve to the right segment
+export const findViaPointInsertion = (
+  route: WaypointRoute,
+  line: Coordinates[],
+  point: Coordinates
+): { leg: number; index: number } => {
+  const points = getRoutePoints(route);
+
+  let searchFrom = 0;
+  const positions = points.map((routePoint) => {
+    let nearest = searchFrom;
+    for (let i = searchFrom; i < line.length; i++) {
+      if (
+        distanceSquared(line[i], routePoint.coordinates) <
+        distanceSquared(line[nearest], routePoint.coordinates)
+      ) {
+        nearest = i;
+      }
+    }
+    searchFrom = nearest;
+    return nearest;
+  });
+
+  let grabbedSegment = 0;
+  for (let i = 1; i < line.length - 1; i++) {
+    if (
+      segmentDistanceSquared(point, line[i], line[i + 1]) <
+      segmentDistanceSquared(
+        point,
+        line[grabbedSegment],
+        line[grabbedSegment + 1]
+      )
+    ) {
+      grabbedSegment = i;
+    }
+  }
+
+  // The last route point at or before the grabbed segment, never the destination itself
+  let previous = 0;
+  for (let i = 1; i < points.length - 1; i++) {
+    if (positions[i] <= grabbedSegment) previous = i;
+  }
+
+  const previousPoint = points[previous];
+  const index = points
+    .slice(0, previous + 1)
+    .filter((routePoint) => routePoint.viaIndex !== null).length;
+  const leg =
+    previousPoint.waypointIndex !== null
+      ? previousPoint.waypointIndex
+      : route.viaPoints[previousPoint.viaIndex as number].leg;
+
+  return { leg, index };
+};
+
+export const insertViaPoint = (
+  viaPoints: ViaPoint[],
+  index: number,
+  viaPoint: ViaPoint
+) => [...viaPoints.slice(0, index), viaPoint, ...viaPoints.slice(index)];
+
+export const removeViaPoint = (viaPoints: ViaPoint[], index: number) =>
+  viaPoints.filter((_, i) => i !== index);
@@ -0,0 +1,60 @@
+import { Waypoint } from './interfaces';
+import {
+  getOrderedWaypoints,
+  moveWaypoint,
+  removeStop,
+  withOrderedWaypoints,
+} from './waypoints';
+
+const point = (address: string): Waypoint => ({
+  coordinates: [153, -27],
+  address,
+});
+
+const route = {
+  origin: point('A'),
+  stops: [point('B'), point('C')],
+  destination: point('D'),
+  viaPoints: [
+    { coordinates: [153, -27] as [number, number], leg: 1 },
+    { coordinates: [153, -27] as [number, number], leg: 2 },
+  ],
+};
+
+const addresses = (waypoints: Waypoint[]) => waypoints.map((w) => w.address);
+
+test('orders origin, stops and destination', () => {
+  expect(addresses(getOrderedWaypoints(route))).toEqual(['A', 'B', 'C', 'D']);
+  expect(
+    addresses(getOrderedWaypoints({ ...route, destination: null }))
+  ).toEqual(['A', 'B', 'C']);
+});
+
+test('moving a stop past an end swaps which waypoint is the end', () => {
+  const moved = moveWaypoint(route, 2, 3);
+  expect(moved.destination.address).toBe('C');
+  expect(addresses(moved.stops)).toEqual(['B', 'D']);
+
+  expect(moved.viaPoints).toEqual([]);
+
+  expect(moveWaypoint(route, 0, -1)).toBe(route);
+});
+
+test('removes a stop by index and merges the legs around it', () => {
+  const removed = removeStop(route, 0);
+  expect(addresses(removed.stops)).toEqual(['C']);
+  expect(removed.viaPoints.map((viaPoint) => viaPoint.leg)).toEqual([0, 1]);
+});
+
+test('replacing the waypoints drops the via points and keeps the rest', () => {
+  const replaced = withOrderedWaypoints({ ...route, name: 'Trip' }, [
+    point('D'),
+    point('A'),
+    point('B'),
+  ]);
+
+  expect(addresses(getOrderedWaypoints(replaced))).toEqual(['D', 'A', 'B']);
+  expect(addresses(replaced.stops)).toEqual(['A']);
+  expect(replaced.viaPoints).toEqual([]);
+  expect(replaced.name).toBe('Trip');
+});
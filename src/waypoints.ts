@@ -0,0 +1,96 @@
+import { ViaPoint, Waypoint, WaypointSlot } from "./interfaces";
+
+// The Directions API accepts at most 25 coordinates per request (origin, stops, snap points and destination)
+export const MAX_ROUTE_COORDINATES = 25;
+
+export interface WaypointRoute {
+  origin: Waypoint | null;
+  stops: Waypoint[];
+  destination: Waypoint | null;
+  viaPoints: ViaPoint[];
+}
+
+// All waypoints of a route in visiting order, skipping the ends that are not set yet
+export const getOrderedWaypoints = (route: WaypointRoute): Waypoint[] => [
+  ...(route.origin ? [route.origin] : []),
+  ...route.stops,
+  ...(route.destination ? [route.destination] : []),
+];
+
+// Splits an ordered list back into origin, stops and destination.
+// Only used once both ends are set, so the first and last entries always become the ends.
+export const fromOrderedWaypoints = (
+  waypoints: Waypoint[]
+): Omit<WaypointRoute, "viaPoints"> => ({
+  origin: waypoints[0] || null,
+  stops: waypoints.slice(1, -1),
+  destination: waypoints.length > 1 ? waypoints[waypoints.length - 1] : null,
+});
+
+// Replaces the waypoints of a route with the ordered list (e.g. reordered or generated ones).
+// Via points are dropped since the legs they were shaping no longer exist.
+export const withOrderedWaypoints = <T extends WaypointRoute>(
+  route: T,
+  waypoints: Waypoint[]
+): T => ({ ...route, ...fromOrderedWaypoints(waypoints), viaPoints: [] });
+
+// Moves the waypoint at `from` to `to` in the ordered list (e.g. one step up or down in the left panel)
+export const moveWaypoint = <T extends WaypointRoute>(
+  route: T,
+  from: number,
+  to: number
+): T => {
+  const waypoints = getOrderedWaypoints(route);
+  if (to < 0 || to >= waypoints.length || from === to) return route;
+
+  const [moved] = waypoints.splice(from, 1);
+  waypoints.splice(to, 0, moved);
+
+  return withOrderedWaypoints(route, waypoints);
+};
+
+export const getWaypoint = (
+  route: WaypointRoute,
+  slot: WaypointSlot
+): Waypoint | null => {
+  if (slot === "origin") return route.origin;
+  if (slot === "destination") return route.destination;
+  return route.stops[slot] || null;
+};
+
+// Replaces the waypoint in the given slot, keeping everything else as is
+export const setWaypoint = <T extends WaypointRoute>(
+  route: T,
+  slot: WaypointSlot,
+  waypoint: Waypoint
+): T => {
+  if (slot === "origin") return { ...route, origin: waypoint };
+  if (slot === "destination") return { ...route, destination: waypoint };
+
+  const stops = [...route.stops];
+  stops[slot] = waypoint;
+  return { ...route, stops };
+};
+
+// The legs on either side of the removed stop are merged, so their via points are kept
+export const removeStop = <T extends WaypointRoute>(
+  route: T,
+  index: number
+): T => {
+  // Stop 0 is waypoint 1 (the origin is waypoint 0), which is where its outgoing leg starts
+  const removedLeg = index + 1;
+
+  return {
+    ...route,
+    stops: route.stops.filter((_, i) => i !== index),
+    viaPoints: route.viaPoints.map((viaPoint) =>
+      viaPoint.leg >= removedLeg
+        ? { ...viaPoint, leg: viaPoint.leg - 1 }
+        : viaPoint
+    ),
+  };
+};
+
+export const canAddStop = (route: WaypointRoute) =>
+  getOrderedWaypoints(route).length + route.viaPoints.length <
+  MAX_ROUTE_COORDINATES;